@@ -1,14 +1,34 @@
-import { GitHubError, RateLimit } from '../types/api';
+import {
+  GitHubError,
+  GraphQLErrorDetail,
+  GraphQLRateLimit,
+  RateLimit,
+  RequestPriority,
+} from '../types/api';
+import { CacheValidators, GITHUB_COM_HOST } from '../types/settings';
+import { getGraphQLUrl, normalizeUrl } from '../utils/hosts';
+import { RateLimitGovernor, getRateLimitGovernor } from './rate-limit-governor';
+import { RequestScheduler, getRequestScheduler } from './request-scheduler';
 
 /**
  * GitHub APIクライアント
  * GitHub APIとの通信を担当
  */
 
-const GITHUB_API_BASE_URL = 'https://api.github.com';
+const GITHUB_API_BASE_URL = GITHUB_COM_HOST.apiUrl;
 const DEFAULT_TIMEOUT = 30000; // 30秒
 const MAX_RETRIES = 3;
 const INITIAL_RETRY_DELAY = 1000; // 1秒
+const DEFAULT_MAX_PAGES = 10;
+const MAX_INLINE_RETRY_DELAY = 10000; // これより長い待機はService Worker内で行わない
+const SECONDARY_RATE_LIMIT_DELAY = 60000; // Retry-Afterがない場合は1分待つ
+
+/**
+ * GraphQLクエリに含めるとレートリミット情報を取得できるフィールド
+ * 例: `query { viewer { login } ${GRAPHQL_RATE_LIMIT_FIELDS} }`
+ */
+export const GRAPHQL_RATE_LIMIT_FIELDS =
+  'rateLimit { limit cost remaining resetAt used }';
 
 /**
  * APIリクエストのオプション
@@ -18,6 +38,16 @@ export interface ApiRequestOptions {
   headers?: Record<string, string>;
   body?: unknown;
   timeout?: number;
+  validators?: CacheValidators; // 条件付きリクエスト用の検証子
+  priority?: RequestPriority; // レートリミット残量が少ない時の優先度
+  signal?: AbortSignal; // リクエストをキャンセルするためのシグナル
+}
+
+/**
+ * ページネーションのオプション
+ */
+export interface PaginateOptions extends ApiRequestOptions {
+  maxPages?: number; // 取得する最大ページ数
 }
 
 /**
@@ -28,6 +58,15 @@ export interface ApiResponse<T = unknown> {
   rateLimit?: RateLimit;
   status: number;
   headers: Headers;
+  notModified?: boolean; // 304 Not Modified の場合true（dataは空）
+  validators?: CacheValidators;
+}
+
+/**
+ * GraphQLレスポンス
+ */
+export interface GraphQLResponse<T = unknown> extends ApiResponse<T> {
+  errors?: GraphQLErrorDetail[]; // 部分的なエラー（dataは取得できている）
 }
 
 /**
@@ -44,14 +83,86 @@ export class ApiError extends Error {
   }
 }
 
+/**
+ * GraphQLエラー
+ * レスポンスの errors[] を保持する
+ */
+export class GraphQLApiError extends ApiError {
+  constructor(
+    message: string,
+    public errors: GraphQLErrorDetail[],
+    status: number
+  ) {
+    super(message, status);
+    this.name = 'GraphQLApiError';
+  }
+}
+
+/**
+ * レートリミットエラー
+ * 残量不足やセカンダリレートリミットでリクエストを延期した場合に投げる
+ */
+export class RateLimitError extends ApiError {
+  constructor(
+    message: string,
+    public retryAt: number,
+    response?: GitHubError
+  ) {
+    super(message, 429, response);
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * キャンセルエラー
+ * 呼び出し元がリクエストをキャンセルした場合に投げる
+ */
+export class RequestCancelledError extends ApiError {
+  constructor(message = 'Request cancelled') {
+    super(message, 499);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/**
+ * キャンセルによるエラーかどうか判定
+ * @param error 判定するエラー
+ * @returns キャンセルによるエラーの場合true
+ */
+export function isCancelledError(error: unknown): boolean {
+  return (
+    error instanceof RequestCancelledError ||
+    (error instanceof Error && error.name === 'AbortError')
+  );
+}
+
 /**
  * GitHub APIクライアントクラス
  */
 export class GitHubApiClient {
   private token: string;
+  private baseUrl: string;
+  private governor: RateLimitGovernor;
+  private scheduler: RequestScheduler;
 
-  constructor(token: string) {
+  constructor(
+    token: string,
+    baseUrl: string = GITHUB_API_BASE_URL,
+    governor: RateLimitGovernor = getRateLimitGovernor(),
+    scheduler: RequestScheduler = getRequestScheduler()
+  ) {
     this.token = token;
+    this.baseUrl = normalizeUrl(baseUrl);
+    this.governor = governor;
+    this.scheduler = scheduler;
+  }
+
+  /**
+   * 接続先とトークンの組を識別するキー
+   * 同じアカウントへの同一リクエストをまとめるために使用（トークン自体は含めない）
+   */
+  get scopeKey(): string {
+    return `${this.baseUrl}#${hashString(this.token)}`;
   }
 
   /**
@@ -62,6 +173,14 @@ export class GitHubApiClient {
     this.token = token;
   }
 
+  /**
+   * APIのベースURLを設定
+   * @param baseUrl REST APIのベースURL（例: https://ghe.example.com/api/v3）
+   */
+  setBaseUrl(baseUrl: string): void {
+    this.baseUrl = normalizeUrl(baseUrl);
+  }
+
   /**
    * GETリクエスト
    * @param endpoint APIエンドポイント
@@ -72,7 +191,118 @@ export class GitHubApiClient {
     endpoint: string,
     options: ApiRequestOptions = {}
   ): Promise<ApiResponse<T>> {
-    return this.request<T>(endpoint, { ...options, method: 'GET' });
+    // 同一GETは実行中のリクエストにまとめ、優先度順に実行する
+    const key = [
+      this.scopeKey,
+      endpoint,
+      options.headers?.Accept || '',
+      options.validators?.etag || '',
+      options.validators?.lastModified || '',
+    ].join('|');
+
+    // 合流した呼び出し元がすべてキャンセルした場合のみ共有のシグナルで中断する
+    return this.scheduler.schedule(
+      key,
+      options.priority || 'normal',
+      (signal) =>
+        this.request<T>(endpoint, { ...options, method: 'GET', signal }),
+      options.signal
+    );
+  }
+
+  /**
+   * GraphQL (v4) クエリを実行
+   * 認証・タイムアウト・リトライ・エラー処理はRESTと共通
+   * dataが返らない場合は GraphQLApiError を投げ、dataと一緒に返った errors[] は
+   * レスポンスの errors に格納する
+   * @param query GraphQLクエリ
+   * @param variables クエリ変数
+   * @param options リクエストオプション
+   * @returns Promise<GraphQLResponse<T>>
+   */
+  async graphql<T = unknown>(
+    query: string,
+    variables: Record<string, unknown> = {},
+    options: ApiRequestOptions = {}
+  ): Promise<GraphQLResponse<T>> {
+    const response = await this.request<{
+      data?: T | null;
+      errors?: GraphQLErrorDetail[];
+    }>(getGraphQLUrl(this.baseUrl), {
+      ...options,
+      method: 'POST',
+      body: { query, variables },
+    });
+
+    const { data, errors } = response.data;
+
+    if (!data) {
+      throw new GraphQLApiError(
+        errors?.map((error) => error.message).join('; ') ||
+          'GraphQL response has no data',
+        errors || [],
+        response.status
+      );
+    }
+
+    if (errors && errors.length > 0) {
+      console.warn('GraphQL query returned partial errors:', errors);
+    }
+
+    const rateLimit = this.extractGraphQLRateLimit(data);
+    if (rateLimit) {
+      await this.governor.record(rateLimit);
+    }
+
+    return {
+      ...response,
+      data,
+      errors,
+      rateLimit: rateLimit || response.rateLimit,
+    };
+  }
+
+  /**
+   * Linkヘッダーの rel="next" をたどってページを順に取得
+   * 呼び出し側は for await ... of で各ページを受け取り、breakで早期終了できる
+   * 検証子（validators）は1ページ目のみに適用し、304の場合はそこで終了する
+   * （2ページ目以降の変更は検出できないため、1ページに収まる一覧にのみ使用する）
+   * @param endpoint 1ページ目のAPIエンドポイント
+   * @param options ページネーションオプション
+   * @returns 各ページのレスポンスを返す非同期イテレータ
+   */
+  async *paginate<T = unknown>(
+    endpoint: string,
+    options: PaginateOptions = {}
+  ): AsyncGenerator<ApiResponse<T>, void, undefined> {
+    const { maxPages = DEFAULT_MAX_PAGES, ...requestOptions } = options;
+    let url: string | null = endpoint;
+    let page = 0;
+
+    while (url) {
+      const response: ApiResponse<T> = await this.get<T>(
+        url,
+        page === 0
+          ? requestOptions
+          : { ...requestOptions, validators: undefined }
+      );
+      page++;
+
+      yield response;
+
+      if (response.notModified) {
+        return;
+      }
+
+      url = this.getNextPageUrl(response.headers);
+
+      if (url && page >= maxPages) {
+        console.warn(
+          `Reached maximum page limit (${maxPages} pages) for ${endpoint}; results are truncated`
+        );
+        return;
+      }
+    }
   }
 
   /**
@@ -89,7 +319,7 @@ export class GitHubApiClient {
   ): Promise<ApiResponse<T>> {
     const url = endpoint.startsWith('http')
       ? endpoint
-      : `${GITHUB_API_BASE_URL}${endpoint}`;
+      : `${this.baseUrl}${endpoint}`;
 
     const headers: Record<string, string> = {
       Authorization: `token ${this.token}`,
@@ -98,6 +328,14 @@ export class GitHubApiClient {
       ...options.headers,
     };
 
+    // 検証子があれば条件付きリクエストにする
+    if (options.validators?.etag) {
+      headers['If-None-Match'] = options.validators.etag;
+    }
+    if (options.validators?.lastModified) {
+      headers['If-Modified-Since'] = options.validators.lastModified;
+    }
+
     const requestInit: RequestInit = {
       method: options.method || 'GET',
       headers,
@@ -107,21 +345,52 @@ export class GitHubApiClient {
       requestInit.body = JSON.stringify(options.body);
     }
 
-    try {
-      const controller = new AbortController();
-      const timeout = options.timeout || DEFAULT_TIMEOUT;
+    // レートリミットの残量を確認（不足していれば待たずに延期）
+    const decision = await this.governor.check(
+      options.priority || 'normal',
+      this.getRateLimitResource(url)
+    );
+    if (!decision.allowed) {
+      const retryAt = decision.retryAt || Date.now();
+      throw new RateLimitError(
+        `APIレート制限のため ${new Date(retryAt).toLocaleTimeString()} まで取得を延期します`,
+        retryAt
+      );
+    }
+
+    if (options.signal?.aborted) {
+      throw new RequestCancelledError();
+    }
+
+    const controller = new AbortController();
+    const timeout = options.timeout || DEFAULT_TIMEOUT;
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
 
-      const timeoutId = setTimeout(() => controller.abort(), timeout);
+    // 呼び出し元のキャンセルをfetchに伝える
+    const onAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onAbort, { once: true });
 
+    try {
       const response = await fetch(url, {
         ...requestInit,
         signal: controller.signal,
       });
 
-      clearTimeout(timeoutId);
-
-      // レートリミット情報を取得
+      // レートリミット情報を取得して記録
       const rateLimit = this.extractRateLimit(response.headers);
+      await this.governor.record(rateLimit);
+
+      // 304 Not Modified（キャッシュがまだ有効）
+      if (response.status === 304) {
+        return {
+          data: null as T,
+          rateLimit,
+          status: response.status,
+          headers: response.headers,
+          notModified: true,
+          validators: options.validators,
+        };
+      }
 
       // ステータスコードのチェック
       if (!response.ok) {
@@ -141,9 +410,14 @@ export class GitHubApiClient {
         rateLimit,
         status: response.status,
         headers: response.headers,
+        validators: this.extractValidators(response.headers),
       };
     } catch (error) {
-      // ネットワークエラーまたはタイムアウト
+      // キャンセル、ネットワークエラーまたはタイムアウト
+      if (options.signal?.aborted) {
+        throw new RequestCancelledError();
+      }
+
       if (error instanceof Error && error.name === 'AbortError') {
         throw new ApiError('Request timeout', 408);
       }
@@ -154,7 +428,7 @@ export class GitHubApiClient {
         console.log(
           `Retrying request after ${delay}ms (attempt ${retryCount + 1}/${MAX_RETRIES})`
         );
-        await this.sleep(delay);
+        await this.sleep(delay, options.signal);
         return this.request<T>(endpoint, options, retryCount + 1);
       }
 
@@ -162,6 +436,9 @@ export class GitHubApiClient {
         `Network error: ${error instanceof Error ? error.message : String(error)}`,
         0
       );
+    } finally {
+      clearTimeout(timeoutId);
+      options.signal?.removeEventListener('abort', onAbort);
     }
   }
 
@@ -184,30 +461,23 @@ export class GitHubApiClient {
       // JSONパースエラー
     }
 
-    // 429 Too Many Requests（レートリミット超過）
-    if (status === 429) {
-      const resetTime = response.headers.get('X-RateLimit-Reset');
-      const retryAfter = response.headers.get('Retry-After');
-
-      if (retryCount < MAX_RETRIES) {
-        let delay: number;
-        if (retryAfter) {
-          delay = parseInt(retryAfter, 10) * 1000;
-        } else if (resetTime) {
-          const resetTimestamp = parseInt(resetTime, 10) * 1000;
-          delay = Math.max(0, resetTimestamp - Date.now());
-        } else {
-          delay = this.calculateRetryDelay(retryCount);
-        }
+    // 429 Too Many Requests / 403 レートリミット超過（セカンダリレートリミットを含む）
+    if (this.isRateLimitResponse(response, errorResponse)) {
+      const delay = this.getRateLimitDelay(response, errorResponse);
 
+      // 短い待機のみその場でリトライし、長い待機はガバナーに任せる
+      if (delay <= MAX_INLINE_RETRY_DELAY && retryCount < MAX_RETRIES) {
         console.log(`Rate limited. Retrying after ${delay}ms`);
-        await this.sleep(delay);
+        await this.sleep(delay, options.signal);
         return this.request<T>(endpoint, options, retryCount + 1);
       }
 
-      throw new ApiError(
+      const retryAt = Date.now() + delay;
+      await this.governor.block(retryAt);
+
+      throw new RateLimitError(
         errorResponse?.message || 'Rate limit exceeded',
-        status,
+        retryAt,
         errorResponse
       );
     }
@@ -218,7 +488,7 @@ export class GitHubApiClient {
       console.log(
         `Server error (${status}). Retrying after ${delay}ms (attempt ${retryCount + 1}/${MAX_RETRIES})`
       );
-      await this.sleep(delay);
+      await this.sleep(delay, options.signal);
       return this.request<T>(endpoint, options, retryCount + 1);
     }
 
@@ -230,6 +500,67 @@ export class GitHubApiClient {
     );
   }
 
+  /**
+   * レートリミット超過のレスポンスかどうか判定
+   * 429、または残量0・Retry-After・セカンダリレートリミットのメッセージを伴う403
+   */
+  private isRateLimitResponse(
+    response: Response,
+    errorResponse?: GitHubError
+  ): boolean {
+    if (response.status === 429) {
+      return true;
+    }
+
+    if (response.status !== 403) {
+      return false;
+    }
+
+    return (
+      response.headers.get('Retry-After') !== null ||
+      response.headers.get('X-RateLimit-Remaining') === '0' ||
+      /rate limit/i.test(errorResponse?.message || '')
+    );
+  }
+
+  /**
+   * レートリミット超過時の待機時間を計算
+   */
+  private getRateLimitDelay(
+    response: Response,
+    errorResponse?: GitHubError
+  ): number {
+    const retryAfter = response.headers.get('Retry-After');
+    if (retryAfter) {
+      return parseInt(retryAfter, 10) * 1000;
+    }
+
+    // セカンダリレートリミットはリセット時刻ではなく一定時間待つ
+    if (/secondary rate limit/i.test(errorResponse?.message || '')) {
+      return SECONDARY_RATE_LIMIT_DELAY;
+    }
+
+    const resetTime = response.headers.get('X-RateLimit-Reset');
+    if (resetTime) {
+      return Math.max(0, parseInt(resetTime, 10) * 1000 - Date.now());
+    }
+
+    return SECONDARY_RATE_LIMIT_DELAY;
+  }
+
+  /**
+   * URLからレートリミットのリソースを判定
+   */
+  private getRateLimitResource(url: string): string {
+    if (url === getGraphQLUrl(this.baseUrl)) {
+      return 'graphql';
+    }
+    if (url.includes('/search/')) {
+      return 'search';
+    }
+    return 'core';
+  }
+
   /**
    * レートリミット情報を抽出
    */
@@ -239,6 +570,63 @@ export class GitHubApiClient {
       remaining: parseInt(headers.get('X-RateLimit-Remaining') || '0', 10),
       reset: parseInt(headers.get('X-RateLimit-Reset') || '0', 10),
       used: parseInt(headers.get('X-RateLimit-Used') || '0', 10),
+      resource: headers.get('X-RateLimit-Resource') || undefined,
+    };
+  }
+
+  /**
+   * GraphQLレスポンスの rateLimit フィールドからレートリミット情報を抽出
+   */
+  private extractGraphQLRateLimit(data: unknown): RateLimit | undefined {
+    const rateLimit = (data as { rateLimit?: GraphQLRateLimit }).rateLimit;
+    if (!rateLimit) {
+      return undefined;
+    }
+
+    return {
+      limit: rateLimit.limit,
+      remaining: rateLimit.remaining,
+      reset: Math.floor(new Date(rateLimit.resetAt).getTime() / 1000),
+      used: rateLimit.used ?? rateLimit.limit - rateLimit.remaining,
+      cost: rateLimit.cost,
+      resource: 'graphql',
+    };
+  }
+
+  /**
+   * Linkヘッダーから次ページのURLを取得
+   * 例: <https://api.github.com/user/repos?page=2>; rel="next", <...>; rel="last"
+   */
+  private getNextPageUrl(headers: Headers): string | null {
+    const link = headers.get('Link');
+    if (!link) {
+      return null;
+    }
+
+    for (const part of link.split(',')) {
+      const match = part.match(/<([^>]+)>\s*;\s*rel="([^"]+)"/);
+      if (match && match[2].split(' ').includes('next')) {
+        return match[1];
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * ETag / Last-Modified を抽出
+   */
+  private extractValidators(headers: Headers): CacheValidators | undefined {
+    const etag = headers.get('ETag');
+    const lastModified = headers.get('Last-Modified');
+
+    if (!etag && !lastModified) {
+      return undefined;
+    }
+
+    return {
+      etag: etag || undefined,
+      lastModified: lastModified || undefined,
     };
   }
 
@@ -250,13 +638,36 @@ export class GitHubApiClient {
   }
 
   /**
-   * 待機処理
+   * 待機処理（キャンセルされた場合は中断）
    */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(new RequestCancelledError());
+      };
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 }
 
+/**
+ * 文字列のハッシュ値を計算（djb2）
+ * @param value 対象の文字列
+ * @returns 16進数のハッシュ値
+ */
+function hashString(value: string): string {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(16);
+}
+
 /**
  * APIクライアントのシングルトンインスタンス
  */
@@ -265,9 +676,13 @@ let apiClientInstance: GitHubApiClient | null = null;
 /**
  * APIクライアントを初期化
  * @param token Personal Access Token
+ * @param baseUrl REST APIのベースURL（省略時はGitHub.com）
  */
-export function initApiClient(token: string): GitHubApiClient {
-  apiClientInstance = new GitHubApiClient(token);
+export function initApiClient(
+  token: string,
+  baseUrl?: string
+): GitHubApiClient {
+  apiClientInstance = new GitHubApiClient(token, baseUrl);
   return apiClientInstance;
 }
 
@@ -281,4 +696,3 @@ export function getApiClient(): GitHubApiClient {
   }
   return apiClientInstance;
 }
-
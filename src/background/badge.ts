@@ -0,0 +1,122 @@
+import { Issue } from '../types/api';
+import { Settings, BadgeSettings, DEFAULT_SETTINGS } from '../types/settings';
+import { getData, saveData } from '../utils/storage';
+import { getCacheTtl } from '../utils/cache-policy';
+import { GitHubApiClient } from './api-client';
+import { getCacheManager } from './cache-manager';
+import { fetchMentionedIssues, fetchReviewRequests } from './github-api';
+
+/**
+ * 拡張機能アイコンのバッジ
+ * 前回ダッシュボードを開いてから更新されたメンション・レビュー依頼の件数を表示する
+ */
+
+/**
+ * ダッシュボードを最後に表示した時刻の保存キー
+ */
+const DASHBOARD_VIEWED_KEY = 'dashboard_viewed_at';
+
+/**
+ * バッジの背景色
+ */
+const BADGE_COLOR = '#0969da';
+
+/**
+ * バッジに表示する件数の上限（超えた場合は「99+」）
+ */
+const MAX_BADGE_COUNT = 99;
+
+/**
+ * バッジの設定を取得
+ * 古い設定データには存在しないためデフォルト値で補う
+ * @param settings 設定データ
+ * @returns BadgeSettings
+ */
+function getBadgeSettings(settings: Settings): BadgeSettings {
+  return { ...DEFAULT_SETTINGS.badge, ...settings.badge };
+}
+
+/**
+ * バッジの件数を更新
+ * 件数は前回ダッシュボードを開いた時刻より後に更新されたものを数える
+ * @param client APIクライアント
+ * @param settings 設定データ
+ * @param namespace キャッシュの名前空間
+ */
+export async function refreshBadge(
+  client: GitHubApiClient,
+  settings: Settings,
+  namespace: string
+): Promise<void> {
+  const badge = getBadgeSettings(settings);
+
+  if (!badge.mentions && !badge.reviewRequests) {
+    await clearBadge();
+    return;
+  }
+
+  const cache = getCacheManager();
+  const options = {
+    priority: 'low' as const,
+    ttl: getCacheTtl(settings, 'issues'),
+    namespace,
+  };
+
+  const [issues, reviewRequests] = await Promise.all([
+    badge.mentions ? fetchMentionedIssues(client, cache, options) : [],
+    badge.reviewRequests ? fetchReviewRequests(client, cache, options) : [],
+  ]);
+
+  // 取得中にダッシュボードが開かれた場合に備え、取得後に時刻を読む
+  const viewedAt = (await getData<number>(DASHBOARD_VIEWED_KEY)) ?? 0;
+  // メンションされていてレビューも依頼されているPull Requestは1件として数える
+  const items = new Map<number, Issue>();
+  [...issues, ...reviewRequests].forEach((issue) => items.set(issue.id, issue));
+  const count = countUpdatedSince(Array.from(items.values()), viewedAt);
+
+  await setBadgeCount(count);
+}
+
+/**
+ * ダッシュボードが表示された時の処理
+ * 表示した時刻を記録し、バッジをクリアする
+ */
+export async function markDashboardViewed(): Promise<void> {
+  await saveData(DASHBOARD_VIEWED_KEY, Date.now());
+  await clearBadge();
+}
+
+/**
+ * バッジをクリア
+ */
+export async function clearBadge(): Promise<void> {
+  await chrome.action.setBadgeText({ text: '' });
+}
+
+/**
+ * バッジに件数を表示（0件の場合は表示しない）
+ * @param count 件数
+ */
+async function setBadgeCount(count: number): Promise<void> {
+  if (count === 0) {
+    await clearBadge();
+    return;
+  }
+
+  const text = count > MAX_BADGE_COUNT ? `${MAX_BADGE_COUNT}+` : String(count);
+  await chrome.action.setBadgeBackgroundColor({ color: BADGE_COLOR });
+  await chrome.action.setBadgeText({ text });
+}
+
+/**
+ * 指定した時刻より後に更新された、オープンなIssue・Pull Requestを数える
+ * @param issues Issue一覧
+ * @param since 基準の時刻（ミリ秒）
+ * @returns 件数
+ */
+function countUpdatedSince(issues: Issue[], since: number): number {
+  return issues.filter(
+    (issue) =>
+      issue.state === 'open' && new Date(issue.updated_at).getTime() > since
+  ).length;
+}
@@ -1,9 +1,26 @@
-import { CacheEntry } from '../types/settings';
-import { saveData, getData } from '../utils/storage';
+import {
+  CacheEntry,
+  CacheValidators,
+  CacheIndexRecord,
+  CacheStore,
+  CacheStats,
+  CacheEntryDiagnostics,
+} from '../types/settings';
+import { saveData, getData, getSettings } from '../utils/storage';
+import {
+  saveIdbData,
+  getIdbData,
+  removeIdbData,
+  clearIdbData,
+} from '../utils/indexed-db';
+import { getCacheSettings } from '../utils/cache-policy';
+import { LruCache } from './lru-cache';
 
 /**
  * キャッシュマネージャー
  * APIレスポンスのキャッシュを管理
+ * メモリ（LRU）→ chrome.storage.local / IndexedDB の2段構成で、
+ * 保存容量が設定の上限を超えた場合は最も長く使われていないものから削除する
  */
 
 /**
@@ -11,31 +28,118 @@ import { saveData, getData } from '../utils/storage';
  */
 const CACHE_KEY_PREFIX = 'cache_';
 
+/**
+ * キャッシュインデックスの保存キー
+ * プレフィックスを付けないのは、キャッシュエントリと区別するため
+ */
+const CACHE_INDEX_KEY = 'cache-index';
+
+/**
+ * 参照回数の保存キー（chrome.storage.session、ブラウザの再起動でリセット）
+ */
+const CACHE_STATS_KEY = 'cache-stats';
+
+/**
+ * 参照回数を保存するまでの待ち時間（参照のたびに書き込まないため）
+ */
+const STATS_SAVE_DELAY = 1000;
+
 /**
  * デフォルトのキャッシュTTL（5分）
  */
 const DEFAULT_TTL = 5 * 60; // 5 minutes in seconds
 
+/**
+ * メモリキャッシュの上限（4MB）
+ */
+const MEMORY_CACHE_MAX_SIZE = 4 * 1024 * 1024;
+
+/**
+ * これより大きいデータはIndexedDBに保存する（256KB）
+ */
+const LARGE_ENTRY_THRESHOLD = 256 * 1024;
+
+/**
+ * キャッシュの名前空間を生成
+ * 別のアカウントや接続先のデータを表示しないよう、キャッシュキーに付ける
+ * @param apiUrl APIのベースURL
+ * @param userId 認証されたユーザーのID
+ * @returns 名前空間（例: api.github.com/12345）
+ */
+export function getCacheNamespace(apiUrl: string, userId: number): string {
+  return `${new URL(apiUrl).host}/${userId}`;
+}
+
+/**
+ * 名前空間付きのキャッシュキーを生成
+ * @param namespace 名前空間（省略時は名前空間なし）
+ * @param key キャッシュキー
+ * @returns 名前空間付きのキャッシュキー
+ */
+export function getNamespacedKey(
+  namespace: string | undefined,
+  key: string
+): string {
+  return namespace ? `${namespace}:${key}` : key;
+}
+
+/**
+ * キャッシュの参照回数の集計
+ */
+interface CacheStatsState {
+  since: number; // 集計を開始した時刻
+  totals: CacheStats;
+  keys: Record<string, CacheStats>;
+}
+
+/**
+ * 参照回数の初期値を生成
+ * @returns CacheStats
+ */
+function createEmptyStats(): CacheStats {
+  return { hits: 0, stale: 0, misses: 0 };
+}
+
+/**
+ * キャッシュエントリのサイズを概算
+ * @param entry キャッシュエントリ
+ * @returns バイト数
+ */
+function estimateSize(entry: CacheEntry): number {
+  return new TextEncoder().encode(JSON.stringify(entry)).length;
+}
+
 /**
  * キャッシュマネージャークラス
  */
 export class CacheManager {
+  private memory = new LruCache<CacheEntry>(MEMORY_CACHE_MAX_SIZE);
+  private indexPromise: Promise<Record<string, CacheIndexRecord>> | null = null;
+  private statsPromise: Promise<CacheStatsState> | null = null;
+  private statsSaveTimer: ReturnType<typeof setTimeout> | null = null;
+
   /**
    * キャッシュを保存
    * @param key キャッシュキー
    * @param data キャッシュするデータ
    * @param ttl Time to Live（秒）
+   * @param validators 条件付きリクエスト用の検証子
    */
-  async set<T>(key: string, data: T, ttl: number = DEFAULT_TTL): Promise<void> {
-    const cacheKey = this.getCacheKey(key);
+  async set<T>(
+    key: string,
+    data: T,
+    ttl: number = DEFAULT_TTL,
+    validators?: CacheValidators
+  ): Promise<void> {
     const entry: CacheEntry<T> = {
       data,
       timestamp: Date.now(),
       ttl: ttl * 1000, // ミリ秒に変換
+      validators,
     };
 
     try {
-      await saveData(cacheKey, entry);
+      await this.writeEntry(key, entry);
       console.log(`Cache saved: ${key} (TTL: ${ttl}s)`);
     } catch (error) {
       console.error(`Failed to save cache for key "${key}":`, error);
@@ -45,33 +149,35 @@ export class CacheManager {
   /**
    * キャッシュを取得
    * @param key キャッシュキー
+   * @param ttl Time to Live（秒）。省略時は保存時のTTLで判定する
    * @returns キャッシュされたデータ、または null
    */
-  async get<T>(key: string): Promise<T | null> {
-    const cacheKey = this.getCacheKey(key);
-
+  async get<T>(key: string, ttl?: number): Promise<T | null> {
     try {
-      const entry = await getData<CacheEntry<T>>(cacheKey);
+      const entry = await this.readEntry<T>(key);
 
       if (!entry) {
         console.log(`Cache miss: ${key}`);
+        this.recordLookup(key, 'misses');
         return null;
       }
 
-      // TTLチェック
+      // TTLチェック（設定でTTLが変更された場合は新しいTTLで判定）
       const now = Date.now();
       const age = now - entry.timestamp;
+      const entryTtl = ttl !== undefined ? ttl * 1000 : entry.ttl;
 
-      if (age > entry.ttl) {
+      if (age > entryTtl) {
         console.log(`Cache expired: ${key} (age: ${Math.floor(age / 1000)}s)`);
-        // 期限切れのキャッシュを削除
-        await this.delete(key);
+        // 更新中に古いデータを表示するため、また条件付きリクエストで再利用するため残す
+        this.recordLookup(key, 'misses');
         return null;
       }
 
       console.log(
-        `Cache hit: ${key} (age: ${Math.floor(age / 1000)}s, TTL: ${Math.floor(entry.ttl / 1000)}s)`
+        `Cache hit: ${key} (age: ${Math.floor(age / 1000)}s, TTL: ${Math.floor(entryTtl / 1000)}s)`
       );
+      this.recordLookup(key, 'hits');
       return entry.data;
     } catch (error) {
       console.error(`Failed to get cache for key "${key}":`, error);
@@ -79,16 +185,76 @@ export class CacheManager {
     }
   }
 
+  /**
+   * 有効期限に関係なくキャッシュエントリを取得
+   * 条件付きリクエストの検証子と、304時に再利用するデータを得るために使用
+   * @param key キャッシュキー
+   * @returns キャッシュエントリ、または null
+   */
+  async getEntry<T>(key: string): Promise<CacheEntry<T> | null> {
+    try {
+      return await this.readEntry<T>(key);
+    } catch (error) {
+      console.error(`Failed to get cache entry for key "${key}":`, error);
+      return null;
+    }
+  }
+
+  /**
+   * 有効期限切れでもキャッシュされたデータを取得
+   * stale-while-revalidate で古いデータを先に表示するために使用
+   * @param key キャッシュキー
+   * @returns データと保存時刻、期限切れかどうか。キャッシュがない場合は null
+   */
+  async peek<T>(
+    key: string
+  ): Promise<{ data: T; timestamp: number; stale: boolean } | null> {
+    const entry = await this.getEntry<T>(key);
+    if (!entry) {
+      this.recordLookup(key, 'misses');
+      return null;
+    }
+
+    const stale = Date.now() - entry.timestamp > entry.ttl;
+    this.recordLookup(key, stale ? 'stale' : 'hits');
+
+    return {
+      data: entry.data,
+      timestamp: entry.timestamp,
+      stale,
+    };
+  }
+
+  /**
+   * キャッシュの有効期限を延長
+   * 304 Not Modified を受け取った場合に使用
+   * @param key キャッシュキー
+   * @param ttl Time to Live（秒）
+   */
+  async touch(key: string, ttl: number = DEFAULT_TTL): Promise<void> {
+    const entry = await this.getEntry(key);
+    if (!entry) {
+      return;
+    }
+
+    try {
+      await this.writeEntry(key, {
+        ...entry,
+        timestamp: Date.now(),
+        ttl: ttl * 1000,
+      });
+    } catch (error) {
+      console.error(`Failed to extend cache for key "${key}":`, error);
+    }
+  }
+
   /**
    * キャッシュを削除
    * @param key キャッシュキー
    */
   async delete(key: string): Promise<void> {
-    const cacheKey = this.getCacheKey(key);
-
     try {
-      const { removeData } = await import('../utils/storage');
-      await removeData(cacheKey);
+      await this.removeEntry(key);
       console.log(`Cache deleted: ${key}`);
     } catch (error) {
       console.error(`Failed to delete cache for key "${key}":`, error);
@@ -100,23 +266,88 @@ export class CacheManager {
    */
   async clearAll(): Promise<void> {
     try {
+      this.memory.clear();
+
       // Chrome Storage APIでキャッシュプレフィックスを持つすべてのキーを削除
       const storage = await chrome.storage.local.get(null);
       const cacheKeys = Object.keys(storage).filter((key) =>
         key.startsWith(CACHE_KEY_PREFIX)
       );
 
-      if (cacheKeys.length > 0) {
-        await chrome.storage.local.remove(cacheKeys);
-        console.log(`Cleared ${cacheKeys.length} cache entries`);
-      } else {
-        console.log('No cache entries to clear');
-      }
+      await chrome.storage.local.remove([...cacheKeys, CACHE_INDEX_KEY]);
+      await clearIdbData();
+      this.indexPromise = null;
+
+      console.log(`Cleared ${cacheKeys.length} cache entries`);
     } catch (error) {
       console.error('Failed to clear all cache:', error);
     }
   }
 
+  /**
+   * 名前空間のキャッシュをすべて削除
+   * トークンを変更した時に以前のアカウントのデータを消すために使用
+   * @param namespace 名前空間
+   */
+  async clearNamespace(namespace: string): Promise<void> {
+    const prefix = getNamespacedKey(namespace, '');
+    const keys = (await this.keys()).filter((key) => key.startsWith(prefix));
+
+    for (const key of keys) {
+      await this.delete(key);
+    }
+
+    console.log(
+      `Cleared cache namespace: ${namespace} (${keys.length} entries)`
+    );
+  }
+
+  /**
+   * 保存されているキャッシュキーの一覧を取得
+   * @returns キャッシュキーの配列
+   */
+  async keys(): Promise<string[]> {
+    const index = await this.loadIndex();
+    return Array.from(new Set([...Object.keys(index), ...this.memory.keys()]));
+  }
+
+  /**
+   * すべてのキャッシュエントリの診断情報を取得
+   * @returns Promise<CacheEntryDiagnostics[]>
+   */
+  async getDiagnostics(): Promise<CacheEntryDiagnostics[]> {
+    const stats = await this.loadStats();
+    const entries: CacheEntryDiagnostics[] = [];
+
+    for (const key of await this.keys()) {
+      const info = await this.getInfo(key);
+      if (!info.exists) {
+        continue;
+      }
+
+      entries.push({
+        key,
+        store: info.store ?? 'memory',
+        size: info.size ?? 0,
+        age: info.age ?? 0,
+        ttl: info.ttl ?? 0,
+        expired: info.expired ?? false,
+        stats: stats.keys[key] ?? createEmptyStats(),
+      });
+    }
+
+    return entries;
+  }
+
+  /**
+   * 参照回数の集計を取得
+   * @returns 集計開始時刻と合計の参照回数
+   */
+  async getStats(): Promise<{ since: number; totals: CacheStats }> {
+    const stats = await this.loadStats();
+    return { since: stats.since, totals: { ...stats.totals } };
+  }
+
   /**
    * キャッシュキーを生成
    * @param key オリジナルのキー
@@ -146,11 +377,12 @@ export class CacheManager {
     age?: number;
     ttl?: number;
     expired?: boolean;
+    size?: number;
+    store?: CacheStore;
   }> {
-    const cacheKey = this.getCacheKey(key);
-
     try {
-      const entry = await getData<CacheEntry>(cacheKey);
+      // 情報の表示のために参照した場合は使用時刻を更新しない
+      const entry = await this.readEntry(key, false);
 
       if (!entry) {
         return { exists: false };
@@ -159,18 +391,316 @@ export class CacheManager {
       const now = Date.now();
       const age = now - entry.timestamp;
       const expired = age > entry.ttl;
+      const record = (await this.loadIndex())[key];
 
       return {
         exists: true,
         age: Math.floor(age / 1000),
         ttl: Math.floor(entry.ttl / 1000),
         expired,
+        size: record?.size ?? this.memory.sizeOf(key),
+        store: record?.store,
       };
     } catch (error) {
       console.error(`Failed to get cache info for key "${key}":`, error);
       return { exists: false };
     }
   }
+
+  /**
+   * キャッシュエントリを読み込む（メモリ → 保存先の順）
+   * @param key キャッシュキー
+   * @param updateAccess 使用時刻を更新するか
+   * @returns キャッシュエントリ、または null
+   */
+  private async readEntry<T>(
+    key: string,
+    updateAccess = true
+  ): Promise<CacheEntry<T> | null> {
+    const index = await this.loadIndex();
+    const record = index[key];
+
+    // 使用時刻はメモリ上でのみ更新し、次の書き込み時に保存する
+    if (record && updateAccess) {
+      record.lastAccess = Date.now();
+    }
+
+    // 容量の上限を超えるデータはメモリにのみ存在する
+    const cached = this.memory.get(key);
+    if (cached) {
+      return cached as CacheEntry<T>;
+    }
+
+    if (!record) {
+      return null;
+    }
+
+    const cacheKey = this.getCacheKey(key);
+    const entry =
+      record.store === 'indexedDB'
+        ? await getIdbData<CacheEntry<T>>(cacheKey)
+        : await getData<CacheEntry<T>>(cacheKey);
+
+    if (!entry) {
+      // 保存先から消えている場合はインデックスからも削除
+      delete index[key];
+      await saveData(CACHE_INDEX_KEY, index);
+      return null;
+    }
+
+    this.memory.set(key, entry as CacheEntry, record.size);
+    return entry;
+  }
+
+  /**
+   * キャッシュエントリを書き込む
+   * 大きいデータはIndexedDBに保存し、容量の上限を超える場合は古いものを削除する
+   * @param key キャッシュキー
+   * @param entry キャッシュエントリ
+   */
+  private async writeEntry<T>(
+    key: string,
+    entry: CacheEntry<T>
+  ): Promise<void> {
+    const index = await this.loadIndex();
+    const previous = index[key];
+    const size = estimateSize(entry as CacheEntry);
+    const budget = await this.getStorageBudget();
+
+    this.memory.set(key, entry as CacheEntry, size);
+
+    if (size > budget) {
+      // 上限を超えるデータはメモリにのみ保持する
+      console.warn(
+        `Cache entry too large to persist: ${key} (${size} bytes, budget: ${budget} bytes)`
+      );
+      if (previous) {
+        await this.removeFromStore(key, previous.store);
+        delete index[key];
+        await saveData(CACHE_INDEX_KEY, index);
+      }
+      return;
+    }
+
+    await this.evict(budget - size, key);
+
+    const cacheKey = this.getCacheKey(key);
+    let store: CacheStore =
+      size > LARGE_ENTRY_THRESHOLD ? 'indexedDB' : 'local';
+
+    if (store === 'local') {
+      try {
+        await saveData(cacheKey, entry);
+      } catch (error) {
+        // chrome.storage.local の容量が足りない場合はIndexedDBに保存
+        console.warn(`Falling back to IndexedDB for cache "${key}":`, error);
+        store = 'indexedDB';
+      }
+    }
+    if (store === 'indexedDB') {
+      await saveIdbData(cacheKey, entry);
+    }
+
+    // 保存先が変わった場合は以前のデータを削除
+    if (previous && previous.store !== store) {
+      await this.removeFromStore(key, previous.store);
+    }
+
+    index[key] = { size, lastAccess: Date.now(), store };
+    await saveData(CACHE_INDEX_KEY, index);
+  }
+
+  /**
+   * キャッシュエントリを削除する
+   * @param key キャッシュキー
+   */
+  private async removeEntry(key: string): Promise<void> {
+    this.memory.delete(key);
+
+    const index = await this.loadIndex();
+    const record = index[key];
+    if (!record) {
+      return;
+    }
+
+    await this.removeFromStore(key, record.store);
+    delete index[key];
+    await saveData(CACHE_INDEX_KEY, index);
+  }
+
+  /**
+   * 保存先からデータを削除する
+   * @param key キャッシュキー
+   * @param store 保存先
+   */
+  private async removeFromStore(key: string, store: CacheStore): Promise<void> {
+    const cacheKey = this.getCacheKey(key);
+    if (store === 'indexedDB') {
+      await removeIdbData(cacheKey);
+    } else {
+      await chrome.storage.local.remove(cacheKey);
+    }
+  }
+
+  /**
+   * 合計サイズが指定した値以下になるまで、使われていないものから削除する
+   * @param maxSize 削除後の合計サイズの上限（バイト）
+   * @param excludeKey 削除しないキー（これから書き込むキー）
+   */
+  private async evict(maxSize: number, excludeKey: string): Promise<void> {
+    const index = await this.loadIndex();
+    const candidates = Object.entries(index)
+      .filter(([key]) => key !== excludeKey)
+      .sort(([, a], [, b]) => a.lastAccess - b.lastAccess);
+
+    let totalSize = candidates.reduce(
+      (sum, [, record]) => sum + record.size,
+      0
+    );
+
+    for (const [key, record] of candidates) {
+      if (totalSize <= maxSize) {
+        break;
+      }
+
+      await this.removeEntry(key);
+      totalSize -= record.size;
+    }
+  }
+
+  /**
+   * 設定からキャッシュの保存容量の上限を取得
+   * @returns バイト数
+   */
+  private async getStorageBudget(): Promise<number> {
+    return getCacheSettings(await getSettings()).storageBudget;
+  }
+
+  /**
+   * 参照結果を集計する
+   * @param key キャッシュキー
+   * @param result 参照結果
+   */
+  private recordLookup(key: string, result: keyof CacheStats): void {
+    this.loadStats()
+      .then((stats) => {
+        stats.totals[result]++;
+        stats.keys[key] = stats.keys[key] ?? createEmptyStats();
+        stats.keys[key][result]++;
+        this.scheduleStatsSave(stats);
+      })
+      .catch((error) => {
+        console.error('Failed to record cache stats:', error);
+      });
+  }
+
+  /**
+   * 参照回数をまとめて保存する
+   * @param stats 参照回数の集計
+   */
+  private scheduleStatsSave(stats: CacheStatsState): void {
+    if (this.statsSaveTimer) {
+      return;
+    }
+
+    this.statsSaveTimer = setTimeout(() => {
+      this.statsSaveTimer = null;
+      chrome.storage.session
+        .set({ [CACHE_STATS_KEY]: stats })
+        .catch((error) => {
+          console.error('Failed to save cache stats:', error);
+        });
+    }, STATS_SAVE_DELAY);
+  }
+
+  /**
+   * 参照回数の集計を読み込む
+   * @returns Promise<CacheStatsState>
+   */
+  private loadStats(): Promise<CacheStatsState> {
+    if (!this.statsPromise) {
+      this.statsPromise = chrome.storage.session
+        .get(CACHE_STATS_KEY)
+        .then(
+          (result) =>
+            (result[CACHE_STATS_KEY] as CacheStatsState | undefined) ?? {
+              since: Date.now(),
+              totals: createEmptyStats(),
+              keys: {},
+            }
+        )
+        .catch((error) => {
+          this.statsPromise = null;
+          throw error;
+        });
+    }
+    return this.statsPromise;
+  }
+
+  /**
+   * キャッシュインデックスを読み込む
+   * @returns キーごとのインデックス
+   */
+  private loadIndex(): Promise<Record<string, CacheIndexRecord>> {
+    if (!this.indexPromise) {
+      this.indexPromise = this.readIndex().catch((error) => {
+        this.indexPromise = null;
+        throw error;
+      });
+    }
+    return this.indexPromise;
+  }
+
+  /**
+   * 保存済みのインデックスを読み込み、なければ作成する
+   * @returns キーごとのインデックス
+   */
+  private async readIndex(): Promise<Record<string, CacheIndexRecord>> {
+    const stored =
+      await getData<Record<string, CacheIndexRecord>>(CACHE_INDEX_KEY);
+    if (stored) {
+      return stored;
+    }
+
+    return this.buildIndex();
+  }
+
+  /**
+   * 以前のバージョンで保存されたキャッシュからインデックスを作成
+   * サイズの大きいデータはIndexedDBに移す
+   * @returns キーごとのインデックス
+   */
+  private async buildIndex(): Promise<Record<string, CacheIndexRecord>> {
+    const storage = await chrome.storage.local.get(null);
+    const index: Record<string, CacheIndexRecord> = {};
+
+    for (const [cacheKey, value] of Object.entries(storage)) {
+      if (!cacheKey.startsWith(CACHE_KEY_PREFIX)) {
+        continue;
+      }
+
+      const key = cacheKey.slice(CACHE_KEY_PREFIX.length);
+      const entry = value as CacheEntry;
+      const size = estimateSize(entry);
+      let store: CacheStore = 'local';
+
+      if (size > LARGE_ENTRY_THRESHOLD) {
+        try {
+          await saveIdbData(cacheKey, entry);
+          await chrome.storage.local.remove(cacheKey);
+          store = 'indexedDB';
+        } catch (error) {
+          console.error(`Failed to migrate cache "${key}":`, error);
+        }
+      }
+
+      index[key] = { size, lastAccess: entry.timestamp, store };
+    }
+
+    await saveData(CACHE_INDEX_KEY, index);
+
+    return index;
+  }
 }
 
 /**
@@ -188,4 +718,3 @@ export function getCacheManager(): CacheManager {
   }
   return cacheManagerInstance;
 }
-
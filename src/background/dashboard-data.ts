@@ -0,0 +1,270 @@
+import {
+  DASHBOARD_SECTIONS,
+  DashboardData,
+  DashboardSection,
+  DashboardSectionData,
+  SectionError,
+  SectionErrorKind,
+} from '../types/messages';
+import { Settings } from '../types/settings';
+import { Repository, Issue, Project, RequestPriority } from '../types/api';
+import { getCacheFreshness, getCacheTtl } from '../utils/cache-policy';
+import {
+  GitHubApiClient,
+  ApiError,
+  RateLimitError,
+  isCancelledError,
+} from './api-client';
+import {
+  CacheManager,
+  getCacheManager,
+  getNamespacedKey,
+} from './cache-manager';
+import {
+  CACHE_KEYS,
+  fetchRepositories,
+  fetchMentionedIssues,
+  fetchProjects,
+  groupRepositoriesByOrganization,
+  sortRepositoriesByUpdated,
+  sortIssuesByUpdated,
+  sortProjectsByUpdated,
+} from './github-api';
+
+/**
+ * ダッシュボードのセクションごとのデータ取得
+ * Portで、取得できたセクションから順にContent Script・Popupに送る
+ */
+
+/**
+ * キャッシュから読み込んだセクションのデータ
+ */
+export interface CachedSection {
+  data: DashboardData;
+  timestamp: number;
+  stale: boolean; // 期限切れ（表示はできるが更新が必要）
+}
+
+/**
+ * レイアウトで表示するセクションを表示順に取得
+ * @param settings 設定データ
+ * @returns セクションの配列
+ */
+export function getEnabledSections(settings: Settings): DashboardSection[] {
+  return getVisibleSectionIds(settings).filter((id): id is DashboardSection =>
+    DASHBOARD_SECTIONS.includes(id as DashboardSection)
+  );
+}
+
+/**
+ * セクションの表示位置からリクエストの優先度を決定
+ * 先頭に表示されるセクションを最優先し、非表示のセクションは後回しにする
+ * @param settings 設定データ
+ * @param sectionId セクションID
+ * @returns RequestPriority
+ */
+export function getSectionPriority(
+  settings: Settings,
+  sectionId: string
+): RequestPriority {
+  const index = getVisibleSectionIds(settings).indexOf(sectionId);
+
+  if (index === -1) {
+    return 'low';
+  }
+  return index === 0 ? 'high' : 'normal';
+}
+
+/**
+ * セクションのデータをAPI（または有効なキャッシュ）から取得
+ * 取得に失敗した場合も例外を投げず、エラーをセクションの結果として返す
+ * （キャンセルされた場合のみ例外を投げる）
+ * @param client APIクライアント
+ * @param settings 設定データ
+ * @param section セクション
+ * @param namespace キャッシュの名前空間
+ * @param signal キャンセル用のシグナル
+ * @returns 該当するセクションの取得結果のみのDashboardData
+ */
+export async function fetchSection(
+  client: GitHubApiClient,
+  settings: Settings,
+  section: DashboardSection,
+  namespace: string,
+  signal?: AbortSignal
+): Promise<DashboardData> {
+  const cache = getCacheManager();
+  const options = {
+    priority: getSectionPriority(settings, section),
+    signal,
+    ttl: getCacheTtl(settings, section),
+    namespace,
+  };
+
+  try {
+    switch (section) {
+      case 'repositories':
+        return toSectionData(
+          section,
+          await fetchRepositories(client, cache, options)
+        );
+      case 'issues':
+        return toSectionData(
+          section,
+          await fetchMentionedIssues(client, cache, options)
+        );
+      case 'projects':
+        return toSectionData(
+          section,
+          await fetchProjects(client, cache, options)
+        );
+    }
+  } catch (error) {
+    if (isCancelledError(error)) {
+      throw error;
+    }
+
+    console.error(`Failed to fetch ${section}:`, error);
+    return { [section]: { error: getSectionError(error) } };
+  }
+}
+
+/**
+ * キャッシュからセクションのデータを読み込む（期限切れも含む）
+ * キャッシュがない、または表示できないほど古い場合はnullを返す
+ * @param cache キャッシュマネージャー
+ * @param settings 設定データ
+ * @param section セクション
+ * @param namespace キャッシュの名前空間
+ * @returns Promise<CachedSection | null>
+ */
+export async function peekSection(
+  cache: CacheManager,
+  settings: Settings,
+  section: DashboardSection,
+  namespace: string
+): Promise<CachedSection | null> {
+  const entry = await cache.peek<Repository[] | Issue[] | Project[]>(
+    getNamespacedKey(namespace, CACHE_KEYS[section])
+  );
+  const freshness =
+    entry && getCacheFreshness(settings, section, entry.timestamp);
+  if (!entry || freshness === 'expired') {
+    return null;
+  }
+
+  return {
+    data: toSectionData(section, entry.data),
+    timestamp: entry.timestamp,
+    stale: freshness === 'stale',
+  };
+}
+
+/**
+ * 取得に失敗したセクションがあるか確認
+ * @param data 取得結果
+ * @param section セクション
+ * @returns 失敗した場合true
+ */
+export function isSectionFailed(
+  data: DashboardData,
+  section: DashboardSection
+): boolean {
+  const result = data[section];
+  return !!result && 'error' in result;
+}
+
+/**
+ * データ取得のエラーを表示用のメッセージに変換
+ * @param error 発生したエラー
+ * @returns エラーメッセージ
+ */
+export function getDataErrorMessage(error: unknown): string {
+  if (error instanceof ApiError) {
+    return `API Error (${error.status}): ${error.message}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * エラーをセクションの取得エラーに変換
+ * @param error 発生したエラー
+ * @returns SectionError
+ */
+function getSectionError(error: unknown): SectionError {
+  const message = getDataErrorMessage(error);
+
+  if (error instanceof RateLimitError) {
+    return { kind: 'rate_limit', status: error.status, message };
+  }
+
+  if (error instanceof ApiError) {
+    const kinds: Record<number, SectionErrorKind> = {
+      401: 'auth',
+      403: 'forbidden',
+      404: 'not_found',
+    };
+    return {
+      kind: kinds[error.status] || 'api',
+      status: error.status,
+      message,
+    };
+  }
+
+  // fetch自体が失敗した場合（オフラインなど）はTypeErrorになる
+  if (error instanceof TypeError) {
+    return { kind: 'network', status: null, message };
+  }
+
+  return { kind: 'unknown', status: null, message };
+}
+
+/**
+ * APIから取得したデータをセクションの表示用に整形
+ * @param section セクション
+ * @param data 取得したデータ
+ * @returns 該当するセクションの取得結果のみのDashboardData
+ */
+function toSectionData(
+  section: DashboardSection,
+  data: Repository[] | Issue[] | Project[]
+): DashboardData {
+  switch (section) {
+    case 'repositories':
+      return {
+        repositories: { data: buildRepositorySection(data as Repository[]) },
+      };
+    case 'issues':
+      return { issues: { data: sortIssuesByUpdated(data as Issue[]) } };
+    case 'projects':
+      return { projects: { data: sortProjectsByUpdated(data as Project[]) } };
+  }
+}
+
+/**
+ * 表示するセクションのIDを表示順に取得
+ * @param settings 設定データ
+ * @returns セクションIDの配列
+ */
+function getVisibleSectionIds(settings: Settings): string[] {
+  return settings.layout
+    .filter((item) => item.enabled)
+    .sort((a, b) => a.order - b.order)
+    .map((item) => item.id);
+}
+
+/**
+ * リポジトリをOrganization別にまとめ、更新順に並べる
+ * @param repositories リポジトリ一覧
+ * @returns Organization別のリポジトリ一覧
+ */
+function buildRepositorySection(
+  repositories: Repository[]
+): DashboardSectionData['repositories'] {
+  const grouped = groupRepositoriesByOrganization(repositories);
+
+  return Array.from(grouped.entries()).map(([org, repos]) => ({
+    organization: org,
+    repositories: sortRepositoriesByUpdated(repos),
+  }));
+}
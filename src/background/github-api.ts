@@ -1,155 +1,682 @@
-import { User, Organization, Repository, Issue, Project } from '../types/api';
-import { GitHubApiClient, ApiResponse } from './api-client';
-import { CacheManager } from './cache-manager';
+import {
+  User,
+  Organization,
+  Repository,
+  Issue,
+  Project,
+  RequestPriority,
+  SearchResult,
+} from '../types/api';
+import {
+  CacheDataType,
+  CacheEntry,
+  CacheValidators,
+  DEFAULT_CACHE_TTL,
+  Settings,
+} from '../types/settings';
+import { TokenInfo } from '../types/auth';
+import { getActiveHost } from '../utils/hosts';
+import { getData, saveData } from '../utils/storage';
+import { parseScopes, parseTokenExpiration } from '../utils/token-capabilities';
+import {
+  GitHubApiClient,
+  ApiError,
+  ApiResponse,
+  ApiRequestOptions,
+  PaginateOptions,
+  RateLimitError,
+} from './api-client';
+import {
+  CacheManager,
+  getCacheNamespace,
+  getNamespacedKey,
+} from './cache-manager';
+import { getRequestScheduler } from './request-scheduler';
 
 /**
  * GitHub API機能
  * GitHub APIを使用して各種データを取得する機能を提供
  */
 
+/**
+ * 各一覧の最大取得ページ数（1ページ100件）
+ */
+const ORGANIZATION_MAX_PAGES = 10;
+const REPOSITORY_MAX_PAGES = 50;
+const ISSUE_MAX_PAGES = 5;
+const PROJECT_MAX_PAGES = 5;
+
+/**
+ * データタイプごとのキャッシュキー
+ */
+export const CACHE_KEYS = {
+  repositories: 'repositories',
+  issues: 'issues_mentioned',
+  projects: 'projects',
+} as const satisfies Record<CacheDataType, string>;
+
+/**
+ * ユーザー情報・Organizationのキャッシュキー（TTLは設定できない）
+ */
+export const USER_CACHE_KEY = 'user';
+export const ORGANIZATIONS_CACHE_KEY = 'organizations';
+
+/**
+ * リポジトリ一覧のエンドポイント（更新順）
+ */
+const REPOSITORIES_ENDPOINT =
+  '/user/repos?sort=updated&per_page=100&affiliation=owner,collaborator,organization_member';
+
+/**
+ * リポジトリの差分同期の状態の保存キーと、全件取得し直す間隔
+ * 削除やアクセス権の喪失は差分では検知できないため、定期的に全件取得する
+ */
+const REPOSITORY_SYNC_KEY = 'repositories_sync';
+const REPOSITORY_FULL_SYNC_INTERVAL = 24 * 60 * 60; // 1日（秒）
+
+/**
+ * リポジトリの差分同期の状態
+ */
+interface RepositorySyncState {
+  watermark: string; // 前回の同期で取得した最新の updated_at
+  fullSyncAt: number; // 最後に全件取得した時刻
+}
+
+/**
+ * レビューを依頼されたPull Requestのキャッシュキーと検索条件
+ * 検索APIは1回の取得で最大100件のため、ページ送りはしない
+ */
+const REVIEW_REQUESTS_KEY = 'review_requests';
+const REVIEW_REQUESTS_QUERY =
+  'is:open is:pr review-requested:@me archived:false';
+
+/**
+ * トークン情報の保存キーと再確認の間隔
+ */
+const TOKEN_INFO_KEY = 'token_info';
+const TOKEN_INFO_TTL = 60 * 60 * 1000; // 1時間
+
+/**
+ * データ取得のオプション
+ */
+export interface FetchOptions {
+  priority?: RequestPriority; // 表示中のセクションはhigh、先読みはlow
+  signal?: AbortSignal; // 取得をキャンセルするためのシグナル
+  ttl?: number; // キャッシュのTTL（秒、0の場合はキャッシュしない）
+  namespace?: string; // キャッシュの名前空間（接続先とユーザー）
+}
+
+/**
+ * 条件付きリクエストでデータを取得し、キャッシュに保存
+ * 期限切れのキャッシュにETag/Last-Modifiedがあれば If-None-Match /
+ * If-Modified-Since を送り、304の場合はキャッシュの有効期限を延長して再利用する
+ * @param client APIクライアント
+ * @param cache キャッシュマネージャー
+ * @param cacheKey キャッシュキー
+ * @param endpoint APIエンドポイント
+ * @param ttl Time to Live（秒）
+ * @param options リクエストオプション
+ * @returns Promise<T>
+ */
+async function fetchWithConditionalCache<T>(
+  client: GitHubApiClient,
+  cache: CacheManager,
+  cacheKey: string,
+  endpoint: string,
+  ttl: number,
+  options: ApiRequestOptions = {}
+): Promise<T> {
+  // 複数タブからの同時取得は1つにまとめる
+  return getRequestScheduler().coalesce(
+    `${client.scopeKey}:${cacheKey}`,
+    async (signal) => {
+      const entry = ttl > 0 ? await cache.getEntry<T>(cacheKey) : null;
+
+      const response: ApiResponse<T> = await client.get(endpoint, {
+        ...options,
+        validators: entry?.validators,
+        signal,
+      });
+
+      if (response.notModified && entry) {
+        await cache.touch(cacheKey, ttl);
+        return entry.data;
+      }
+
+      await storeInCache(
+        cache,
+        cacheKey,
+        response.data,
+        ttl,
+        response.validators
+      );
+
+      return response.data;
+    },
+    options.signal
+  );
+}
+
+/**
+ * すべてのページを取得してキャッシュに保存
+ * 1ページ目は条件付きリクエストとし、304の場合はキャッシュを再利用する
+ * 304は1ページ目が変わっていないことしか示さないため、2ページ以上の一覧は
+ * 検証子を保存せず、次回も全ページを取得する
+ * @param client APIクライアント
+ * @param cache キャッシュマネージャー
+ * @param cacheKey キャッシュキー
+ * @param endpoint 1ページ目のAPIエンドポイント
+ * @param ttl Time to Live（秒）
+ * @param options ページネーションオプション
+ * @param conditional 条件付きリクエストにするか（falseの場合は必ず全ページ取得）
+ * @returns Promise<T[]>
+ */
+async function fetchAllPagesWithCache<T>(
+  client: GitHubApiClient,
+  cache: CacheManager,
+  cacheKey: string,
+  endpoint: string,
+  ttl: number,
+  options: PaginateOptions = {},
+  conditional = true
+): Promise<T[]> {
+  // 複数タブからの同時取得は1つのページ取得ループにまとめる
+  return getRequestScheduler().coalesce(
+    `${client.scopeKey}:${cacheKey}`,
+    async (signal) => {
+      const entry =
+        ttl > 0 && conditional ? await cache.getEntry<T[]>(cacheKey) : null;
+      const items: T[] = [];
+      let validators: CacheValidators | undefined;
+      let pages = 0;
+
+      for await (const response of client.paginate<T[]>(endpoint, {
+        ...options,
+        validators: entry?.validators,
+        signal,
+      })) {
+        if (response.notModified && entry) {
+          await cache.touch(cacheKey, ttl);
+          return entry.data;
+        }
+
+        if (pages === 0) {
+          validators = response.validators;
+        }
+        pages++;
+
+        items.push(...response.data);
+      }
+
+      // キャンセルされた場合は途中までの結果をキャッシュしない
+      if (signal.aborted) {
+        throw signal.reason;
+      }
+
+      await storeInCache(
+        cache,
+        cacheKey,
+        items,
+        ttl,
+        pages === 1 ? validators : undefined
+      );
+
+      return items;
+    },
+    options.signal
+  );
+}
+
+/**
+ * 取得したデータをキャッシュに保存
+ * TTLが0（キャッシュしない）の場合は以前のキャッシュを削除する
+ * @param cache キャッシュマネージャー
+ * @param cacheKey キャッシュキー
+ * @param data 保存するデータ
+ * @param ttl Time to Live（秒）
+ * @param validators 条件付きリクエスト用の検証子
+ */
+async function storeInCache<T>(
+  cache: CacheManager,
+  cacheKey: string,
+  data: T,
+  ttl: number,
+  validators?: CacheValidators
+): Promise<void> {
+  if (ttl > 0) {
+    await cache.set(cacheKey, data, ttl, validators);
+  } else {
+    await cache.delete(cacheKey);
+  }
+}
+
+/**
+ * キャッシュから有効なデータを取得
+ * @param cache キャッシュマネージャー
+ * @param cacheKey キャッシュキー
+ * @param ttl Time to Live（秒、0の場合はキャッシュを使わない）
+ * @returns キャッシュされたデータ、または null
+ */
+async function getCached<T>(
+  cache: CacheManager,
+  cacheKey: string,
+  ttl: number
+): Promise<T | null> {
+  return ttl > 0 ? cache.get<T>(cacheKey, ttl) : null;
+}
+
 /**
  * ユーザー情報を取得
  * @param client APIクライアント
  * @param cache キャッシュマネージャー
+ * @param options 取得オプション
  * @returns Promise<User>
  */
 export async function fetchUser(
   client: GitHubApiClient,
-  cache: CacheManager
+  cache: CacheManager,
+  options: FetchOptions = {}
 ): Promise<User> {
-  const cacheKey = 'user';
+  const cacheKey = getNamespacedKey(options.namespace, USER_CACHE_KEY);
+  const ttl = options.ttl ?? DEFAULT_CACHE_TTL;
 
   // キャッシュをチェック
-  const cached = await cache.get<User>(cacheKey);
+  const cached = await getCached<User>(cache, cacheKey, ttl);
   if (cached) {
     return cached;
   }
 
-  // APIから取得
+  // APIから取得してキャッシュに保存
   console.log('Fetching user from API...');
-  const response: ApiResponse<User> = await client.get('/user');
-
-  // キャッシュに保存（5分）
-  await cache.set(cacheKey, response.data, 5 * 60);
-
-  return response.data;
+  return fetchWithConditionalCache<User>(
+    client,
+    cache,
+    cacheKey,
+    '/user',
+    ttl,
+    { priority: options.priority, signal: options.signal }
+  );
 }
 
 /**
  * Organization一覧を取得
  * @param client APIクライアント
  * @param cache キャッシュマネージャー
+ * @param options 取得オプション
  * @returns Promise<Organization[]>
  */
 export async function fetchOrganizations(
   client: GitHubApiClient,
-  cache: CacheManager
+  cache: CacheManager,
+  options: FetchOptions = {}
 ): Promise<Organization[]> {
-  const cacheKey = 'organizations';
+  const cacheKey = getNamespacedKey(options.namespace, ORGANIZATIONS_CACHE_KEY);
+  const ttl = options.ttl ?? DEFAULT_CACHE_TTL;
 
   // キャッシュをチェック
-  const cached = await cache.get<Organization[]>(cacheKey);
+  const cached = await getCached<Organization[]>(cache, cacheKey, ttl);
   if (cached) {
     return cached;
   }
 
-  // APIから取得
+  // APIから取得してキャッシュに保存
   console.log('Fetching organizations from API...');
-  const response: ApiResponse<Organization[]> = await client.get('/user/orgs');
-
-  // キャッシュに保存（5分）
-  await cache.set(cacheKey, response.data, 5 * 60);
-
-  return response.data;
+  return fetchAllPagesWithCache<Organization>(
+    client,
+    cache,
+    cacheKey,
+    '/user/orgs?per_page=100',
+    ttl,
+    {
+      maxPages: ORGANIZATION_MAX_PAGES,
+      priority: options.priority,
+      signal: options.signal,
+    }
+  );
 }
 
 /**
  * リポジトリ一覧を取得
+ * 前回の取得結果がある場合は、それ以降に更新されたリポジトリだけを取得してマージする
  * @param client APIクライアント
  * @param cache キャッシュマネージャー
+ * @param options 取得オプション
  * @returns Promise<Repository[]>
  */
 export async function fetchRepositories(
   client: GitHubApiClient,
-  cache: CacheManager
+  cache: CacheManager,
+  options: FetchOptions = {}
 ): Promise<Repository[]> {
-  const cacheKey = 'repositories';
+  const cacheKey = getNamespacedKey(options.namespace, CACHE_KEYS.repositories);
+  const syncKey = getNamespacedKey(options.namespace, REPOSITORY_SYNC_KEY);
+  const ttl = options.ttl ?? DEFAULT_CACHE_TTL;
 
   // キャッシュをチェック
-  const cached = await cache.get<Repository[]>(cacheKey);
+  const cached = await getCached<Repository[]>(cache, cacheKey, ttl);
   if (cached) {
     return cached;
   }
 
-  // APIから取得
-  console.log('Fetching repositories from API...');
-  
-  const allRepos: Repository[] = [];
-  let page = 1;
-  const perPage = 100;
-  
-  // ページネーションで全リポジトリを取得
-  while (true) {
-    const response: ApiResponse<Repository[]> = await client.get(
-      `/user/repos?sort=updated&per_page=${perPage}&page=${page}&affiliation=owner,collaborator,organization_member`
+  const previous =
+    ttl > 0 ? await cache.getEntry<Repository[]>(cacheKey) : null;
+  const syncState = previous
+    ? await cache.getEntry<RepositorySyncState>(syncKey)
+    : null;
+
+  // 全件取得から一定期間内であれば差分だけを取得
+  if (
+    previous &&
+    syncState &&
+    Date.now() - syncState.data.fullSyncAt <
+      REPOSITORY_FULL_SYNC_INTERVAL * 1000
+  ) {
+    const repositories = await syncRepositoriesIncrementally(
+      client,
+      cache,
+      cacheKey,
+      ttl,
+      previous,
+      syncState.data.watermark,
+      options
     );
-    
-    if (response.data.length === 0) {
-      break;
-    }
-    
-    allRepos.push(...response.data);
-    
-    // 100件未満の場合は最後のページ
-    if (response.data.length < perPage) {
-      break;
-    }
-    
-    page++;
-    
-    // 安全のため、10ページ（1000件）までで停止
-    if (page > 10) {
-      console.warn('Reached maximum page limit (10 pages)');
-      break;
+    await saveRepositorySyncState(
+      cache,
+      syncKey,
+      repositories,
+      syncState.data.fullSyncAt
+    );
+    return repositories;
+  }
+
+  return fetchAllRepositories(client, cache, cacheKey, syncKey, ttl, options);
+}
+
+/**
+ * リポジトリ一覧を全件取得し直す
+ * 差分同期では削除やアクセス権の喪失を検知できないため、開いたリポジトリに
+ * アクセスできなかった時に、定期的な全件取得を待たずに一覧から取り除く
+ * @param client APIクライアント
+ * @param cache キャッシュマネージャー
+ * @param options 取得オプション
+ * @returns Promise<Repository[]>
+ */
+export async function reconcileRepositories(
+  client: GitHubApiClient,
+  cache: CacheManager,
+  options: FetchOptions = {}
+): Promise<Repository[]> {
+  return fetchAllRepositories(
+    client,
+    cache,
+    getNamespacedKey(options.namespace, CACHE_KEYS.repositories),
+    getNamespacedKey(options.namespace, REPOSITORY_SYNC_KEY),
+    options.ttl ?? DEFAULT_CACHE_TTL,
+    options
+  );
+}
+
+/**
+ * リポジトリ一覧を全件取得してキャッシュに保存
+ * @param client APIクライアント
+ * @param cache キャッシュマネージャー
+ * @param cacheKey キャッシュキー
+ * @param syncKey 同期状態のキャッシュキー
+ * @param ttl Time to Live（秒）
+ * @param options 取得オプション
+ * @returns Promise<Repository[]>
+ */
+async function fetchAllRepositories(
+  client: GitHubApiClient,
+  cache: CacheManager,
+  cacheKey: string,
+  syncKey: string,
+  ttl: number,
+  options: FetchOptions
+): Promise<Repository[]> {
+  // 削除されたリポジトリを検知するため、条件付きリクエストにはしない
+  console.log('Fetching repositories from API...');
+  const repositories = await fetchAllPagesWithCache<Repository>(
+    client,
+    cache,
+    cacheKey,
+    REPOSITORIES_ENDPOINT,
+    ttl,
+    {
+      maxPages: REPOSITORY_MAX_PAGES,
+      priority: options.priority,
+      signal: options.signal,
+    },
+    false
+  );
+
+  console.log(`Fetched ${repositories.length} repositories`);
+
+  if (ttl > 0) {
+    await saveRepositorySyncState(cache, syncKey, repositories, Date.now());
+  }
+
+  return repositories;
+}
+
+/**
+ * リポジトリにアクセスできるか確認
+ * @param client APIクライアント
+ * @param fullName リポジトリ名（owner/repo）
+ * @param options 取得オプション
+ * @returns 削除された・アクセス権がない（404・403）場合 false
+ */
+export async function checkRepositoryAccess(
+  client: GitHubApiClient,
+  fullName: string,
+  options: FetchOptions = {}
+): Promise<boolean> {
+  try {
+    await client.get<Repository>(`/repos/${fullName}`, {
+      priority: options.priority,
+      signal: options.signal,
+    });
+    return true;
+  } catch (error) {
+    if (
+      error instanceof ApiError &&
+      !(error instanceof RateLimitError) &&
+      (error.status === 403 || error.status === 404)
+    ) {
+      return false;
     }
+    throw error;
   }
-  
-  console.log(`Fetched ${allRepos.length} repositories`);
+}
 
-  // キャッシュに保存（5分）
-  await cache.set(cacheKey, allRepos, 5 * 60);
+/**
+ * 前回の同期以降に更新されたリポジトリだけを取得して、前回の結果とマージ
+ * 更新順に取得し、前回の同期時点より古いリポジトリが現れたところで打ち切る
+ * @param client APIクライアント
+ * @param cache キャッシュマネージャー
+ * @param cacheKey キャッシュキー
+ * @param ttl Time to Live（秒）
+ * @param previous 前回の取得結果
+ * @param watermark 前回の同期で取得した最新の updated_at
+ * @param options 取得オプション
+ * @returns Promise<Repository[]>
+ */
+async function syncRepositoriesIncrementally(
+  client: GitHubApiClient,
+  cache: CacheManager,
+  cacheKey: string,
+  ttl: number,
+  previous: CacheEntry<Repository[]>,
+  watermark: string,
+  options: FetchOptions
+): Promise<Repository[]> {
+  // 複数タブからの同時取得は1つにまとめる
+  return getRequestScheduler().coalesce(
+    `${client.scopeKey}:${cacheKey}`,
+    async (signal) => {
+      const updated: Repository[] = [];
+      let validators: CacheValidators | undefined;
+      let isFirstPage = true;
+      let reachedWatermark = false;
+
+      for await (const response of client.paginate<Repository[]>(
+        REPOSITORIES_ENDPOINT,
+        {
+          maxPages: REPOSITORY_MAX_PAGES,
+          priority: options.priority,
+          validators: previous.validators,
+          signal,
+        }
+      )) {
+        if (response.notModified) {
+          await cache.touch(cacheKey, ttl);
+          return previous.data;
+        }
+
+        if (isFirstPage) {
+          validators = response.validators;
+          isFirstPage = false;
+        }
+
+        for (const repository of response.data) {
+          if (repository.updated_at < watermark) {
+            reachedWatermark = true;
+            break;
+          }
+          updated.push(repository);
+        }
+
+        if (reachedWatermark) {
+          break;
+        }
+      }
+
+      // キャンセルされた場合は途中までの結果をキャッシュしない
+      if (signal.aborted) {
+        throw signal.reason;
+      }
+
+      const repositories = mergeRepositories(previous.data, updated);
+      await storeInCache(cache, cacheKey, repositories, ttl, validators);
+
+      return repositories;
+    },
+    options.signal
+  );
+}
+
+/**
+ * 前回の取得結果に更新されたリポジトリを反映
+ * 削除されたリポジトリは残るため、次の全件取得（最大1日後）まで一覧に表示される
+ * @param previous 前回の取得結果
+ * @param updated 更新されたリポジトリ
+ * @returns 更新順に並べたリポジトリ一覧
+ */
+function mergeRepositories(
+  previous: Repository[],
+  updated: Repository[]
+): Repository[] {
+  const merged = new Map(previous.map((repo) => [repo.id, repo]));
+  updated.forEach((repo) => merged.set(repo.id, repo));
+  return sortRepositoriesByUpdated(Array.from(merged.values()));
+}
+
+/**
+ * リポジトリの差分同期の状態を保存
+ * @param cache キャッシュマネージャー
+ * @param syncKey 同期状態のキャッシュキー
+ * @param repositories 同期後のリポジトリ一覧
+ * @param fullSyncAt 最後に全件取得した時刻
+ */
+async function saveRepositorySyncState(
+  cache: CacheManager,
+  syncKey: string,
+  repositories: Repository[],
+  fullSyncAt: number
+): Promise<void> {
+  const watermark = repositories.reduce(
+    (latest, repo) => (repo.updated_at > latest ? repo.updated_at : latest),
+    ''
+  );
 
-  return allRepos;
+  await cache.set<RepositorySyncState>(
+    syncKey,
+    { watermark, fullSyncAt },
+    REPOSITORY_FULL_SYNC_INTERVAL
+  );
 }
 
 /**
  * メンションされたIssue一覧を取得
  * @param client APIクライアント
  * @param cache キャッシュマネージャー
+ * @param options 取得オプション
  * @returns Promise<Issue[]>
  */
 export async function fetchMentionedIssues(
   client: GitHubApiClient,
-  cache: CacheManager
+  cache: CacheManager,
+  options: FetchOptions = {}
 ): Promise<Issue[]> {
-  const cacheKey = 'issues_mentioned';
+  const cacheKey = getNamespacedKey(options.namespace, CACHE_KEYS.issues);
+  const ttl = options.ttl ?? DEFAULT_CACHE_TTL;
 
   // キャッシュをチェック
-  const cached = await cache.get<Issue[]>(cacheKey);
+  const cached = await getCached<Issue[]>(cache, cacheKey, ttl);
   if (cached) {
     return cached;
   }
 
-  // APIから取得
+  // APIから取得してキャッシュに保存
   console.log('Fetching mentioned issues from API...');
-  const response: ApiResponse<Issue[]> = await client.get(
-    '/issues?filter=mentioned&state=all&per_page=50'
+  return fetchAllPagesWithCache<Issue>(
+    client,
+    cache,
+    cacheKey,
+    '/issues?filter=mentioned&state=all&per_page=100',
+    ttl,
+    {
+      maxPages: ISSUE_MAX_PAGES,
+      priority: options.priority,
+      signal: options.signal,
+    }
   );
+}
 
-  // キャッシュに保存（5分）
-  await cache.set(cacheKey, response.data, 5 * 60);
+/**
+ * レビューを依頼されているPull Request一覧を取得
+ * @param client APIクライアント
+ * @param cache キャッシュマネージャー
+ * @param options 取得オプション
+ * @returns Promise<Issue[]>
+ */
+export async function fetchReviewRequests(
+  client: GitHubApiClient,
+  cache: CacheManager,
+  options: FetchOptions = {}
+): Promise<Issue[]> {
+  const cacheKey = getNamespacedKey(options.namespace, REVIEW_REQUESTS_KEY);
+  const ttl = options.ttl ?? DEFAULT_CACHE_TTL;
 
-  return response.data;
+  // キャッシュをチェック
+  const cached = await getCached<SearchResult<Issue>>(cache, cacheKey, ttl);
+  if (cached) {
+    return cached.items;
+  }
+
+  // APIから取得してキャッシュに保存
+  const result = await fetchWithConditionalCache<SearchResult<Issue>>(
+    client,
+    cache,
+    cacheKey,
+    `/search/issues?q=${encodeURIComponent(REVIEW_REQUESTS_QUERY)}&sort=updated&per_page=100`,
+    ttl,
+    {
+      priority: options.priority,
+      signal: options.signal,
+    }
+  );
+  return result.items;
 }
 
 /**
@@ -157,16 +684,19 @@ export async function fetchMentionedIssues(
  * 注: GitHub Projects V2 APIは別のエンドポイントを使用
  * @param client APIクライアント
  * @param cache キャッシュマネージャー
+ * @param options 取得オプション
  * @returns Promise<Project[]>
  */
 export async function fetchProjects(
   client: GitHubApiClient,
-  cache: CacheManager
+  cache: CacheManager,
+  options: FetchOptions = {}
 ): Promise<Project[]> {
-  const cacheKey = 'projects';
+  const cacheKey = getNamespacedKey(options.namespace, CACHE_KEYS.projects);
+  const ttl = options.ttl ?? DEFAULT_CACHE_TTL;
 
   // キャッシュをチェック
-  const cached = await cache.get<Project[]>(cacheKey);
+  const cached = await getCached<Project[]>(cache, cacheKey, ttl);
   if (cached) {
     return cached;
   }
@@ -176,22 +706,22 @@ export async function fetchProjects(
   // Projects V2を使用する場合は別のエンドポイントを使用する必要がある
   console.log('Fetching projects from API...');
 
-  try {
-    const response: ApiResponse<Project[]> = await client.get('/user/projects', {
+  // 取得に失敗した場合は呼び出し元でセクションのエラーとして扱う
+  return fetchAllPagesWithCache<Project>(
+    client,
+    cache,
+    cacheKey,
+    '/user/projects?per_page=100',
+    ttl,
+    {
+      maxPages: PROJECT_MAX_PAGES,
+      priority: options.priority,
+      signal: options.signal,
       headers: {
         Accept: 'application/vnd.github.inertia-preview+json',
       },
-    });
-
-    // キャッシュに保存（5分）
-    await cache.set(cacheKey, response.data, 5 * 60);
-
-    return response.data;
-  } catch (error) {
-    console.error('Failed to fetch projects:', error);
-    // プロジェクトAPIがエラーの場合は空配列を返す
-    return [];
-  }
+    }
+  );
 }
 
 /**
@@ -199,19 +729,23 @@ export async function fetchProjects(
  * @param client APIクライアント
  * @returns Promise<{ valid: boolean; message?: string; user?: User }>
  */
-export async function validateToken(
-  client: GitHubApiClient
-): Promise<{ valid: boolean; message?: string; user?: User }> {
+export async function validateToken(client: GitHubApiClient): Promise<{
+  valid: boolean;
+  message?: string;
+  user?: User;
+  tokenInfo?: TokenInfo;
+}> {
   try {
     console.log('Validating token...');
-    const response: ApiResponse<User> = await client.get('/user');
+    const { user, tokenInfo } = await introspectToken(client);
 
-    console.log('Token is valid:', response.data.login);
+    console.log('Token is valid:', user.login);
 
     return {
       valid: true,
-      message: `認証成功: ${response.data.login}`,
-      user: response.data,
+      message: `認証成功: ${user.login}`,
+      user,
+      tokenInfo,
     };
   } catch (error) {
     console.error('Token validation failed:', error);
@@ -230,6 +764,84 @@ export async function validateToken(
   }
 }
 
+/**
+ * トークンの権限・有効期限を取得
+ * 同じトークンの情報が1時間以内に確認済みであれば保存済みの情報を返す
+ * @param client GitHubApiClient
+ * @returns Promise<TokenInfo>
+ */
+export async function getTokenInfo(
+  client: GitHubApiClient
+): Promise<TokenInfo> {
+  const stored = await getStoredTokenInfo(client);
+  if (stored && Date.now() - stored.checkedAt < TOKEN_INFO_TTL) {
+    return stored;
+  }
+
+  const { tokenInfo } = await introspectToken(client);
+  return tokenInfo;
+}
+
+/**
+ * 保存済みのトークン情報を取得（APIには問い合わせない）
+ * @param client GitHubApiClient
+ * @returns Promise<TokenInfo | null>（別のトークンの情報しかない場合null）
+ */
+export async function getStoredTokenInfo(
+  client: GitHubApiClient
+): Promise<TokenInfo | null> {
+  const stored = await getData<TokenInfo>(TOKEN_INFO_KEY);
+  // 古いバージョンで保存された情報にはユーザーIDがないため使わない
+  return stored &&
+    stored.tokenKey === client.scopeKey &&
+    stored.userId !== undefined
+    ? stored
+    : null;
+}
+
+/**
+ * 使用中のアカウントのキャッシュ名前空間を取得
+ * ユーザーIDは保存済みのトークン情報を使い、なければ /user で確認する
+ * @param client APIクライアント
+ * @param settings 設定
+ * @returns Promise<string>
+ */
+export async function resolveCacheNamespace(
+  client: GitHubApiClient,
+  settings: Settings
+): Promise<string> {
+  const tokenInfo =
+    (await getStoredTokenInfo(client)) ?? (await getTokenInfo(client));
+  return getCacheNamespace(getActiveHost(settings).apiUrl, tokenInfo.userId);
+}
+
+/**
+ * /user のレスポンスヘッダーからトークンの権限・有効期限を調べて保存
+ * @param client GitHubApiClient
+ * @returns Promise<{ user: User; tokenInfo: TokenInfo }>
+ */
+async function introspectToken(
+  client: GitHubApiClient
+): Promise<{ user: User; tokenInfo: TokenInfo }> {
+  const response: ApiResponse<User> = await client.get('/user', {
+    priority: 'high',
+  });
+
+  const tokenInfo: TokenInfo = {
+    tokenKey: client.scopeKey,
+    userId: response.data.id,
+    login: response.data.login,
+    scopes: parseScopes(response.headers.get('x-oauth-scopes')),
+    expiresAt: parseTokenExpiration(
+      response.headers.get('github-authentication-token-expiration')
+    ),
+    checkedAt: Date.now(),
+  };
+
+  await saveData(TOKEN_INFO_KEY, tokenInfo);
+  return { user: response.data, tokenInfo };
+}
+
 /**
  * Organization別にリポジトリをグループ化
  * @param repositories リポジトリ一覧
@@ -294,4 +906,3 @@ export function sortProjectsByUpdated(projects: Project[]): Project[] {
     return dateB - dateA; // 降順（最新が上）
   });
 }
-
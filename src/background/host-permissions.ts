@@ -0,0 +1,78 @@
+import { Settings, GITHUB_COM_HOST } from '../types/settings';
+import {
+  isBuiltInHost,
+  getDashboardUrlPatterns,
+  getOriginPatterns,
+} from '../utils/hosts';
+
+/**
+ * ホスト権限とContent Scriptの動的登録
+ * GitHub.com 以外のホスト（GHES）は manifest の content_scripts に含まれないため、
+ * 実行時に許可されたホストに対してContent Scriptを登録する
+ */
+
+/**
+ * 動的に登録するContent ScriptのIDプレフィックス
+ */
+const CONTENT_SCRIPT_ID_PREFIX = 'gdc-host-';
+
+/**
+ * 設定されたホストに合わせてContent Scriptの登録を同期
+ * ホスト権限が許可されていないホストはスキップする
+ * @param settings 設定データ
+ */
+export async function syncHostContentScripts(
+  settings: Settings
+): Promise<void> {
+  try {
+    const registered = await chrome.scripting.getRegisteredContentScripts();
+    const registeredIds = registered
+      .map((script) => script.id)
+      .filter((id) => id.startsWith(CONTENT_SCRIPT_ID_PREFIX));
+
+    if (registeredIds.length > 0) {
+      await chrome.scripting.unregisterContentScripts({ ids: registeredIds });
+    }
+
+    const scripts: chrome.scripting.RegisteredContentScript[] = [];
+
+    for (const host of settings.hosts || []) {
+      if (isBuiltInHost(host)) {
+        continue;
+      }
+
+      const granted = await chrome.permissions.contains({
+        origins: getOriginPatterns(host),
+      });
+
+      if (!granted) {
+        console.warn(`Host permission not granted: ${host.webUrl}`);
+        continue;
+      }
+
+      scripts.push({
+        id: `${CONTENT_SCRIPT_ID_PREFIX}${host.id}`,
+        matches: getDashboardUrlPatterns(host),
+        js: ['content/content-script.js'],
+        runAt: 'document_idle',
+        persistAcrossSessions: true,
+      });
+    }
+
+    if (scripts.length > 0) {
+      await chrome.scripting.registerContentScripts(scripts);
+    }
+  } catch (error) {
+    console.error('Failed to sync host content scripts:', error);
+  }
+}
+
+/**
+ * すべてのホストのダッシュボードURLパターンを取得
+ * @param settings 設定データ
+ * @returns URLパターンの配列
+ */
+export function getAllDashboardUrlPatterns(settings: Settings): string[] {
+  const hosts = (settings.hosts || []).filter((host) => !isBuiltInHost(host));
+  return [GITHUB_COM_HOST, ...hosts].flatMap(getDashboardUrlPatterns);
+}
@@ -0,0 +1,110 @@
+/**
+ * メモリ上のLRUキャッシュ
+ * 合計サイズが上限を超えた場合、最も長く使われていないものから削除する
+ * Service Workerが停止すると内容は失われる
+ */
+
+/**
+ * LRUキャッシュの要素
+ */
+interface LruItem<T> {
+  value: T;
+  size: number; // バイト数（概算）
+}
+
+/**
+ * LRUキャッシュクラス
+ * Mapの挿入順を利用し、先頭を最も古いものとして扱う
+ */
+export class LruCache<T> {
+  private items = new Map<string, LruItem<T>>();
+  private currentSize = 0;
+
+  constructor(private maxSize: number) {}
+
+  /**
+   * 値を取得（取得した値は最新として扱う）
+   * @param key キー
+   * @returns 値、または undefined
+   */
+  get(key: string): T | undefined {
+    const item = this.items.get(key);
+    if (!item) {
+      return undefined;
+    }
+
+    this.items.delete(key);
+    this.items.set(key, item);
+    return item.value;
+  }
+
+  /**
+   * 値を保存
+   * 上限より大きい値は保存しない
+   * @param key キー
+   * @param value 値
+   * @param size バイト数（概算）
+   */
+  set(key: string, value: T, size: number): void {
+    this.delete(key);
+
+    if (size > this.maxSize) {
+      return;
+    }
+
+    this.items.set(key, { value, size });
+    this.currentSize += size;
+
+    while (this.currentSize > this.maxSize) {
+      const oldestKey = this.items.keys().next().value;
+      if (oldestKey === undefined) {
+        break;
+      }
+      this.delete(oldestKey);
+    }
+  }
+
+  /**
+   * 値のサイズを取得（使用順は変更しない）
+   * @param key キー
+   * @returns バイト数（概算）、または undefined
+   */
+  sizeOf(key: string): number | undefined {
+    return this.items.get(key)?.size;
+  }
+
+  /**
+   * 値を削除
+   * @param key キー
+   */
+  delete(key: string): void {
+    const item = this.items.get(key);
+    if (item) {
+      this.currentSize -= item.size;
+      this.items.delete(key);
+    }
+  }
+
+  /**
+   * 保存しているキーの一覧
+   * @returns キーの配列（古い順）
+   */
+  keys(): string[] {
+    return Array.from(this.items.keys());
+  }
+
+  /**
+   * すべての値を削除
+   */
+  clear(): void {
+    this.items.clear();
+    this.currentSize = 0;
+  }
+
+  /**
+   * 保存している値の合計サイズ
+   */
+  get size(): number {
+    return this.currentSize;
+  }
+}
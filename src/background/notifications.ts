@@ -0,0 +1,239 @@
+import { Issue } from '../types/api';
+import {
+  Settings,
+  NotificationSettings,
+  QuietHours,
+  DEFAULT_SETTINGS,
+} from '../types/settings';
+import { getData, saveData } from '../utils/storage';
+import { getActiveHost } from '../utils/hosts';
+import { getCacheTtl } from '../utils/cache-policy';
+import { GitHubApiClient } from './api-client';
+import { getCacheManager, getNamespacedKey } from './cache-manager';
+import { fetchMentionedIssues, fetchReviewRequests } from './github-api';
+
+/**
+ * デスクトップ通知
+ * バックグラウンド更新で取得したメンション・レビュー依頼のうち、
+ * 前回までに見ていないものを通知する
+ */
+
+/**
+ * 通知済みのIssue IDの保存キー（名前空間ごと）
+ */
+const SEEN_ITEMS_KEY = 'notification_seen';
+
+/**
+ * 通知IDのプレフィックス（クリック時に開くURLを続ける）
+ */
+const NOTIFICATION_ID_PREFIX = 'gdc-notification:';
+
+/**
+ * 1回の更新で個別に通知する上限（超えた分はまとめて通知）
+ */
+const MAX_NOTIFICATIONS = 5;
+
+/**
+ * 通知する項目
+ */
+interface NotificationItem {
+  issue: Issue;
+  reason: string;
+}
+
+/**
+ * 通知の設定を取得
+ * 古い設定データには存在しないためデフォルト値で補う
+ * @param settings 設定データ
+ * @returns NotificationSettings
+ */
+function getNotificationSettings(settings: Settings): NotificationSettings {
+  return { ...DEFAULT_SETTINGS.notifications, ...settings.notifications };
+}
+
+/**
+ * 新しいメンション・レビュー依頼を通知
+ * 初回は通知せず、現在の一覧を通知済みとして記録する
+ * @param client APIクライアント
+ * @param settings 設定データ
+ * @param namespace キャッシュの名前空間
+ */
+export async function notifyNewItems(
+  client: GitHubApiClient,
+  settings: Settings,
+  namespace: string
+): Promise<void> {
+  const notifications = getNotificationSettings(settings);
+  if (!notifications.enabled) {
+    return;
+  }
+
+  const cache = getCacheManager();
+  const options = {
+    priority: 'low' as const,
+    ttl: getCacheTtl(settings, 'issues'),
+    namespace,
+  };
+
+  const [reviewRequests, issues] = await Promise.all([
+    fetchReviewRequests(client, cache, options),
+    fetchMentionedIssues(client, cache, options),
+  ]);
+
+  // 同じPull Requestが両方に含まれる場合はレビュー依頼として扱う
+  const items = new Map<number, NotificationItem>();
+  reviewRequests.forEach((issue) =>
+    items.set(issue.id, { issue, reason: 'レビューを依頼されました' })
+  );
+  issues
+    .filter((issue) => issue.state === 'open' && !items.has(issue.id))
+    .forEach((issue) =>
+      items.set(issue.id, { issue, reason: 'メンションされました' })
+    );
+
+  const seenKey = getNamespacedKey(namespace, SEEN_ITEMS_KEY);
+  const seen = await getData<number[]>(seenKey);
+
+  // 通知しない時間帯は通知済みとして記録せず、終了後の更新で通知する
+  if (seen && isQuietTime(notifications.quietHours)) {
+    return;
+  }
+
+  await saveData(seenKey, Array.from(items.keys()));
+
+  if (!seen) {
+    return;
+  }
+
+  const seenIds = new Set(seen);
+  const newItems = Array.from(items.values()).filter(
+    (item) => !seenIds.has(item.issue.id) && !isMuted(notifications, item.issue)
+  );
+
+  for (const item of newItems.slice(0, MAX_NOTIFICATIONS)) {
+    await createNotification(item.issue.html_url, {
+      title: item.issue.title,
+      message: `${getRepositoryFullName(item.issue)}#${item.issue.number}`,
+      contextMessage: item.reason,
+    });
+  }
+
+  const remaining = newItems.length - MAX_NOTIFICATIONS;
+  if (remaining > 0) {
+    await createNotification(getActiveHost(settings).webUrl, {
+      title: 'GitHub Dashboard Customizer',
+      message: `他に${remaining}件の新しいメンション・レビュー依頼があります`,
+    });
+  }
+}
+
+/**
+ * 通知がクリックされた時の処理
+ * 通知に対応するURLを新しいタブで開く
+ * @param notificationId 通知ID
+ */
+export async function handleNotificationClick(
+  notificationId: string
+): Promise<void> {
+  if (!notificationId.startsWith(NOTIFICATION_ID_PREFIX)) {
+    return;
+  }
+
+  const url = notificationId.slice(NOTIFICATION_ID_PREFIX.length);
+  await chrome.tabs.create({ url });
+  chrome.notifications.clear(notificationId);
+}
+
+/**
+ * 通知を表示
+ * @param url クリック時に開くURL
+ * @param options 通知の内容
+ */
+async function createNotification(
+  url: string,
+  options: { title: string; message: string; contextMessage?: string }
+): Promise<void> {
+  await new Promise<string>((resolve) =>
+    chrome.notifications.create(
+      `${NOTIFICATION_ID_PREFIX}${url}`,
+      {
+        type: 'basic',
+        iconUrl: chrome.runtime.getURL('assets/icons/icon128.png'),
+        ...options,
+      },
+      resolve
+    )
+  );
+}
+
+/**
+ * ミュートしたリポジトリ・Organizationの項目か判定
+ * @param notifications 通知の設定
+ * @param issue Issue
+ * @returns ミュートしている場合true
+ */
+export function isMuted(
+  notifications: NotificationSettings,
+  issue: Issue
+): boolean {
+  const fullName = getRepositoryFullName(issue).toLowerCase();
+  const owner = fullName.split('/')[0];
+
+  return (
+    notifications.mutedRepositories.some(
+      (name) => name.toLowerCase() === fullName
+    ) ||
+    notifications.mutedOrganizations.some(
+      (name) => name.toLowerCase() === owner
+    )
+  );
+}
+
+/**
+ * 通知しない時間帯か判定
+ * 終了時刻が開始時刻より前の場合は日をまたぐ時間帯として扱う
+ * @param quietHours 通知しない時間帯
+ * @param now 現在時刻
+ * @returns 通知しない時間帯の場合true
+ */
+export function isQuietTime(
+  quietHours: QuietHours,
+  now: Date = new Date()
+): boolean {
+  if (!quietHours.enabled) {
+    return false;
+  }
+
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+
+  if (start <= end) {
+    return minutes >= start && minutes < end;
+  }
+  return minutes >= start || minutes < end;
+}
+
+/**
+ * HH:MM形式の時刻を0時からの分に変換
+ * @param time HH:MM形式の時刻
+ * @returns 分
+ */
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Issueのリポジトリ名（owner/repo）を取得
+ * 検索APIの結果には repository が含まれないため repository_url から取り出す
+ * @param issue Issue
+ * @returns リポジトリ名
+ */
+function getRepositoryFullName(issue: Issue): string {
+  return (
+    issue.repository?.full_name ||
+    issue.repository_url.split('/repos/')[1] ||
+    ''
+  );
+}
@@ -0,0 +1,351 @@
+import {
+  DeviceCodeInfo,
+  DeviceFlowPollResult,
+  OAuthCredentials,
+} from '../types/auth';
+import { Settings } from '../types/settings';
+import { getActiveHost, normalizeUrl } from '../utils/hosts';
+import { getData, removeData, saveData } from '../utils/storage';
+import {
+  getSecret,
+  getToken,
+  saveToken,
+  setSecrets,
+} from '../utils/secret-store';
+
+/**
+ * OAuthデバイスフロー
+ * PATを貼り付ける代わりに「GitHubでサインイン」でトークンを取得する
+ * ポーリングはOptions Pageが行い、Service Workerは1回ずつ問い合わせる
+ */
+
+const DEVICE_CODE_PATH = '/login/device/code';
+const ACCESS_TOKEN_PATH = '/login/oauth/access_token';
+const DEVICE_GRANT_TYPE = 'urn:ietf:params:oauth:grant-type:device_code';
+const OAUTH_CREDENTIALS_KEY = 'oauth_credentials';
+const DEVICE_FLOW_SCOPES = 'repo read:org read:project';
+const REQUEST_TIMEOUT = 30000; // 30秒
+const DEFAULT_POLL_INTERVAL = 5; // 秒
+const SLOW_DOWN_INCREMENT = 5; // slow_down時に延ばす秒数（RFC 8628）
+const REFRESH_MARGIN = 5 * 60 * 1000; // 期限の5分前に更新する
+
+/**
+ * デバイスコード要求のレスポンス
+ */
+interface DeviceCodeResponse {
+  device_code: string;
+  user_code: string;
+  verification_uri: string;
+  expires_in: number;
+  interval?: number;
+}
+
+/**
+ * アクセストークン要求のレスポンス
+ * 失敗時は error / error_description が返る
+ */
+interface AccessTokenResponse {
+  access_token?: string;
+  token_type?: string;
+  scope?: string;
+  expires_in?: number;
+  refresh_token?: string;
+  refresh_token_expires_in?: number;
+  interval?: number;
+  error?: string;
+  error_description?: string;
+}
+
+/**
+ * OAuthエラー
+ */
+export class OAuthError extends Error {
+  constructor(
+    message: string,
+    public code: string
+  ) {
+    super(message);
+    this.name = 'OAuthError';
+  }
+}
+
+/**
+ * 実行中のトークン更新（同時に複数回更新しないため）
+ */
+let refreshPromise: Promise<string> | null = null;
+
+/**
+ * OAuthサーバーのURLを取得
+ * 設定がない場合は使用中のホストのWeb URLを使用する
+ * @param settings 設定
+ * @returns OAuthサーバーのURL
+ */
+export function getOAuthBaseUrl(settings: Settings): string {
+  return (
+    normalizeUrl(settings.oauth?.baseUrl || '') ||
+    normalizeUrl(getActiveHost(settings).webUrl)
+  );
+}
+
+/**
+ * デバイスフローを開始してユーザーコードを取得
+ * @param settings 設定
+ * @returns Promise<DeviceCodeInfo>
+ */
+export async function startDeviceFlow(
+  settings: Settings
+): Promise<DeviceCodeInfo> {
+  const clientId = settings.oauth?.clientId?.trim();
+  if (!clientId) {
+    throw new OAuthError('Client IDが設定されていません', 'missing_client_id');
+  }
+
+  const baseUrl = getOAuthBaseUrl(settings);
+
+  const response = await postForm<DeviceCodeResponse & AccessTokenResponse>(
+    `${baseUrl}${DEVICE_CODE_PATH}`,
+    { client_id: clientId, scope: DEVICE_FLOW_SCOPES }
+  );
+
+  if (response.error || !response.device_code) {
+    throw toOAuthError(response);
+  }
+
+  return {
+    deviceCode: response.device_code,
+    userCode: response.user_code,
+    verificationUri: response.verification_uri,
+    interval: response.interval || DEFAULT_POLL_INTERVAL,
+    expiresAt: Date.now() + response.expires_in * 1000,
+  };
+}
+
+/**
+ * ユーザーの承認状況を1回問い合わせる
+ * 承認済みの場合はトークンを保存する
+ * @param settings 設定
+ * @param deviceCode startDeviceFlowで取得したデバイスコード
+ * @param interval 現在のポーリング間隔（秒）
+ * @returns Promise<DeviceFlowPollResult>
+ */
+export async function pollDeviceFlow(
+  settings: Settings,
+  deviceCode: string,
+  interval: number
+): Promise<DeviceFlowPollResult> {
+  const clientId = settings.oauth?.clientId?.trim();
+  if (!clientId) {
+    throw new OAuthError('Client IDが設定されていません', 'missing_client_id');
+  }
+
+  const baseUrl = getOAuthBaseUrl(settings);
+  const response = await postForm<AccessTokenResponse>(
+    `${baseUrl}${ACCESS_TOKEN_PATH}`,
+    {
+      client_id: clientId,
+      device_code: deviceCode,
+      grant_type: DEVICE_GRANT_TYPE,
+    }
+  );
+
+  switch (response.error) {
+    case undefined:
+      break;
+
+    case 'authorization_pending':
+      return { status: 'pending' };
+
+    case 'slow_down':
+      return {
+        status: 'slow_down',
+        interval: response.interval || interval + SLOW_DOWN_INCREMENT,
+      };
+
+    case 'expired_token':
+      return { status: 'expired' };
+
+    case 'access_denied':
+      return { status: 'denied' };
+
+    default:
+      throw toOAuthError(response);
+  }
+
+  await storeTokenResponse(response, clientId, baseUrl);
+
+  return { status: 'complete' };
+}
+
+/**
+ * 有効なトークンを取得する
+ * OAuthで取得したトークンが期限切れ間近の場合は更新してから返す
+ * @returns Promise<string>
+ */
+export async function getValidToken(): Promise<string> {
+  const token = await getToken();
+  const credentials = await getData<OAuthCredentials>(OAUTH_CREDENTIALS_KEY);
+
+  if (!token || !credentials || !credentials.expiresAt) {
+    return token;
+  }
+
+  if (Date.now() < credentials.expiresAt - REFRESH_MARGIN) {
+    return token;
+  }
+
+  if (!refreshPromise) {
+    refreshPromise = refreshAccessToken(credentials).finally(() => {
+      refreshPromise = null;
+    });
+  }
+
+  return refreshPromise;
+}
+
+/**
+ * OAuthの更新情報を削除する
+ * PATを手動で保存した場合など、OAuthのトークンを使わなくなった時に呼ぶ
+ * @returns Promise<void>
+ */
+export async function clearOAuthCredentials(): Promise<void> {
+  await removeData(OAUTH_CREDENTIALS_KEY);
+  await setSecrets({ refreshToken: '' });
+}
+
+/**
+ * リフレッシュトークンでアクセストークンを更新
+ * @param credentials 保存済みの更新情報
+ * @returns Promise<string> 新しいアクセストークン
+ */
+async function refreshAccessToken(
+  credentials: OAuthCredentials
+): Promise<string> {
+  const refreshToken = await getSecret('refreshToken');
+  const canRefresh =
+    !!refreshToken &&
+    (!credentials.refreshTokenExpiresAt ||
+      Date.now() < credentials.refreshTokenExpiresAt);
+
+  if (!canRefresh) {
+    throw new OAuthError(
+      'トークンの有効期限が切れました。再度サインインしてください',
+      'token_expired'
+    );
+  }
+
+  const response = await postForm<AccessTokenResponse>(
+    `${credentials.baseUrl}${ACCESS_TOKEN_PATH}`,
+    {
+      client_id: credentials.clientId,
+      grant_type: 'refresh_token',
+      refresh_token: refreshToken,
+    }
+  );
+
+  if (response.error || !response.access_token) {
+    throw toOAuthError(response);
+  }
+
+  await storeTokenResponse(response, credentials.clientId, credentials.baseUrl);
+
+  return response.access_token;
+}
+
+/**
+ * トークンレスポンスを保存
+ * @param response アクセストークン要求のレスポンス
+ * @param clientId Client ID
+ * @param baseUrl OAuthサーバーのURL
+ */
+async function storeTokenResponse(
+  response: AccessTokenResponse,
+  clientId: string,
+  baseUrl: string
+): Promise<void> {
+  if (!response.access_token) {
+    throw new OAuthError('トークンを取得できませんでした', 'invalid_response');
+  }
+
+  const now = Date.now();
+  const credentials: OAuthCredentials = {
+    clientId,
+    baseUrl,
+    expiresAt: response.expires_in ? now + response.expires_in * 1000 : null,
+    refreshTokenExpiresAt: response.refresh_token_expires_in
+      ? now + response.refresh_token_expires_in * 1000
+      : null,
+  };
+
+  await saveToken(response.access_token);
+  await setSecrets({ refreshToken: response.refresh_token || '' });
+  await saveData(OAUTH_CREDENTIALS_KEY, credentials);
+}
+
+/**
+ * OAuthエラーレスポンスをOAuthErrorに変換
+ * @param response エラーレスポンス
+ * @returns OAuthError
+ */
+function toOAuthError(response: AccessTokenResponse): OAuthError {
+  const code = response.error || 'invalid_response';
+  const message =
+    code === 'device_flow_disabled'
+      ? 'このアプリではデバイスフローが有効になっていません'
+      : response.error_description || `OAuthエラー: ${code}`;
+  return new OAuthError(message, code);
+}
+
+/**
+ * フォーム形式でPOSTしてJSONを受け取る
+ * @param url リクエストURL
+ * @param params 送信するパラメータ
+ * @returns Promise<T>
+ */
+async function postForm<T>(
+  url: string,
+  params: Record<string, string>
+): Promise<T> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT);
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        Accept: 'application/json',
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams(params).toString(),
+      signal: controller.signal,
+    });
+
+    // エラー時もJSONでerrorが返るため、パースできればそのまま返す
+    const data = await response.json().catch(() => null);
+    if (!data) {
+      throw new OAuthError(
+        `OAuthサーバーの応答が不正です (${response.status})`,
+        'invalid_response'
+      );
+    }
+
+    return data as T;
+  } catch (error) {
+    if (error instanceof OAuthError) {
+      throw error;
+    }
+    if (error instanceof Error && error.name === 'AbortError') {
+      throw new OAuthError(
+        'OAuthサーバーへの接続がタイムアウトしました',
+        'timeout'
+      );
+    }
+    throw new OAuthError(
+      `OAuthサーバーに接続できません: ${
+        error instanceof Error ? error.message : String(error)
+      }`,
+      'network_error'
+    );
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,187 @@
+import { Repository, Issue } from '../types/api';
+import { getSettings } from '../utils/storage';
+import { getActiveHost } from '../utils/hosts';
+import { getToken } from '../utils/secret-store';
+import { fuzzyFilter, FuzzyMatch } from '../utils/fuzzy-match';
+import { GitHubApiClient } from './api-client';
+import {
+  getCacheManager,
+  getCacheNamespace,
+  getNamespacedKey,
+} from './cache-manager';
+import { CACHE_KEYS, getStoredTokenInfo } from './github-api';
+
+/**
+ * アドレスバー（omnibox）のキーワード検索
+ * キャッシュ済みのリポジトリ・メンションされたIssueから候補を表示する
+ * APIにはアクセスしないため、オフラインでも使える
+ */
+
+/**
+ * 表示する候補の上限
+ */
+const MAX_SUGGESTIONS = 6;
+
+/**
+ * 候補の検索対象
+ */
+interface OmniboxCandidate {
+  url: string;
+  text: string; // あいまい検索の対象
+  detail: string; // 補足（説明など）
+}
+
+/**
+ * 入力中のキーワードに一致する候補を返す
+ * @param text 入力されたテキスト
+ * @returns 候補の配列
+ */
+export async function getOmniboxSuggestions(
+  text: string
+): Promise<chrome.omnibox.SuggestResult[]> {
+  const query = text.trim();
+  if (!query) {
+    return [];
+  }
+
+  const candidates = await loadCandidates();
+  return fuzzyFilter(
+    candidates,
+    query,
+    (candidate) => candidate.text,
+    MAX_SUGGESTIONS
+  ).map(({ item, match }) => ({
+    content: item.url,
+    description: formatDescription(item, match),
+  }));
+}
+
+/**
+ * 候補が決定された時に開くURLを取得
+ * 候補のURL以外が入力された場合はGitHubの検索結果を開く
+ * @param text 入力されたテキスト（候補を選んだ場合はそのURL）
+ * @returns 開くURL
+ */
+export async function getOmniboxUrl(text: string): Promise<string> {
+  const settings = await getSettings();
+  const host = getActiveHost(settings);
+  const query = text.trim();
+
+  if (query.startsWith(`${host.webUrl}/`)) {
+    return query;
+  }
+
+  return `${host.webUrl}/search?q=${encodeURIComponent(query)}`;
+}
+
+/**
+ * 決定されたURLを開く
+ * @param url 開くURL
+ * @param disposition 開き方（現在のタブ・新しいタブ）
+ */
+export async function openOmniboxUrl(
+  url: string,
+  disposition: chrome.omnibox.OnInputEnteredDisposition
+): Promise<void> {
+  switch (disposition) {
+    case 'newForegroundTab':
+      await chrome.tabs.create({ url });
+      break;
+    case 'newBackgroundTab':
+      await chrome.tabs.create({ url, active: false });
+      break;
+    default:
+      await chrome.tabs.update({ url });
+  }
+}
+
+/**
+ * キャッシュから候補を読み込む
+ * 期限切れのキャッシュも使い、トークン情報がない場合は候補なしとする
+ * @returns 候補の配列
+ */
+async function loadCandidates(): Promise<OmniboxCandidate[]> {
+  const token = await getToken().catch(() => '');
+  if (!token) {
+    return [];
+  }
+
+  const settings = await getSettings();
+  const apiUrl = getActiveHost(settings).apiUrl;
+  // 入力のたびに呼ばれるため、共有のAPIクライアントは置き換えない
+  const tokenInfo = await getStoredTokenInfo(
+    new GitHubApiClient(token, apiUrl)
+  );
+  if (!tokenInfo) {
+    return [];
+  }
+
+  const cache = getCacheManager();
+  const namespace = getCacheNamespace(apiUrl, tokenInfo.userId);
+  const [repositories, issues] = await Promise.all([
+    cache.getEntry<Repository[]>(
+      getNamespacedKey(namespace, CACHE_KEYS.repositories)
+    ),
+    cache.getEntry<Issue[]>(getNamespacedKey(namespace, CACHE_KEYS.issues)),
+  ]);
+
+  return [
+    ...(repositories?.data || []).map((repo) => ({
+      url: repo.html_url,
+      text: repo.full_name,
+      detail: repo.description || '',
+    })),
+    ...(issues?.data || []).map((issue) => ({
+      url: issue.html_url,
+      text: `${issue.repository?.full_name || ''}#${issue.number} ${issue.title}`,
+      detail: issue.state === 'open' ? 'Issue' : 'Issue（クローズ済み）',
+    })),
+  ];
+}
+
+/**
+ * 候補の説明文を作成
+ * 一致した文字を <match> で強調する（omniboxの説明文はXML形式）
+ * @param candidate 候補
+ * @param match あいまい検索の結果
+ * @returns 説明文
+ */
+function formatDescription(
+  candidate: OmniboxCandidate,
+  match: FuzzyMatch
+): string {
+  const matched = new Set(match.indices);
+  let description = '';
+  let inMatch = false;
+
+  candidate.text.split('').forEach((char, index) => {
+    if (matched.has(index) !== inMatch) {
+      description += inMatch ? '</match>' : '<match>';
+      inMatch = !inMatch;
+    }
+    description += escapeXml(char);
+  });
+  if (inMatch) {
+    description += '</match>';
+  }
+
+  if (candidate.detail) {
+    description += ` <dim>- ${escapeXml(candidate.detail)}</dim>`;
+  }
+
+  return description;
+}
+
+/**
+ * XMLの特殊文字をエスケープ
+ * @param text テキスト
+ * @returns エスケープしたテキスト
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,171 @@
+import { Settings, CacheDataType, DEFAULT_SETTINGS } from '../types/settings';
+import { getSettings } from '../utils/storage';
+import { getActiveHost } from '../utils/hosts';
+import { getCacheTtl } from '../utils/cache-policy';
+import { GitHubApiClient, initApiClient } from './api-client';
+import { CacheManager, getCacheManager } from './cache-manager';
+import { getRateLimitGovernor } from './rate-limit-governor';
+import { getValidToken } from './oauth-device-flow';
+import { refreshBadge } from './badge';
+import { notifyNewItems } from './notifications';
+import {
+  FetchOptions,
+  fetchRepositories,
+  fetchMentionedIssues,
+  fetchProjects,
+  resolveCacheNamespace,
+} from './github-api';
+
+/**
+ * バックグラウンド更新
+ * chrome.alarms で定期的に有効なセクションのデータを取得し、
+ * ダッシュボードを開いた時にキャッシュから表示できるようにする
+ */
+
+/**
+ * バックグラウンド更新のアラーム名
+ */
+export const PREFETCH_ALARM = 'prefetch';
+
+/**
+ * 操作がない状態をアイドルとみなすまでの時間（秒）
+ */
+const IDLE_DETECTION_INTERVAL = 5 * 60;
+
+/**
+ * セクションごとのデータ取得処理
+ */
+const SECTION_FETCHERS: Partial<
+  Record<
+    CacheDataType,
+    (
+      client: GitHubApiClient,
+      cache: CacheManager,
+      options: FetchOptions
+    ) => Promise<unknown>
+  >
+> = {
+  repositories: fetchRepositories,
+  issues: fetchMentionedIssues,
+  projects: fetchProjects,
+};
+
+/**
+ * 実行中のバックグラウンド更新（重複して実行しない）
+ */
+let prefetchPromise: Promise<void> | null = null;
+
+/**
+ * 設定に合わせてバックグラウンド更新のアラームを登録
+ * 間隔が変わっていない場合は既存のアラームをそのまま使う
+ * @param settings 設定データ
+ */
+export async function schedulePrefetch(settings: Settings): Promise<void> {
+  // インポートした古い設定データには存在しない
+  const { enabled, interval } = settings.prefetch || DEFAULT_SETTINGS.prefetch;
+
+  if (!enabled) {
+    await chrome.alarms.clear(PREFETCH_ALARM);
+    return;
+  }
+
+  const alarm = await chrome.alarms.get(PREFETCH_ALARM);
+  if (alarm?.periodInMinutes === interval) {
+    return;
+  }
+
+  await chrome.alarms.create(PREFETCH_ALARM, {
+    delayInMinutes: 1,
+    periodInMinutes: interval,
+  });
+}
+
+/**
+ * バックグラウンド更新を実行
+ * @returns Promise<void>
+ */
+export function runPrefetch(): Promise<void> {
+  if (!prefetchPromise) {
+    prefetchPromise = prefetchSections().finally(() => {
+      prefetchPromise = null;
+    });
+  }
+  return prefetchPromise;
+}
+
+/**
+ * 有効なセクションのデータを取得してキャッシュに保存し、バッジの件数の更新と
+ * 新しいメンション・レビュー依頼の通知を行う
+ * オフライン・アイドル中・レートリミットの残りが少ない場合はスキップする
+ */
+async function prefetchSections(): Promise<void> {
+  const settings = await getSettings();
+
+  if (!settings.prefetch.enabled) {
+    return;
+  }
+
+  if (!navigator.onLine) {
+    return;
+  }
+
+  const idleState = await new Promise<chrome.idle.IdleState>((resolve) =>
+    chrome.idle.queryState(IDLE_DETECTION_INTERVAL, resolve)
+  );
+  if (idleState !== 'active') {
+    return;
+  }
+
+  const decision = await getRateLimitGovernor().check('low');
+  if (!decision.allowed) {
+    return;
+  }
+
+  const sections = settings.layout
+    .filter((item) => item.enabled)
+    .sort((a, b) => a.order - b.order)
+    .map((item) => item.id as CacheDataType)
+    .filter((id) => SECTION_FETCHERS[id]);
+
+  // ロック中・未設定の場合は取得しない
+  const token = await getValidToken().catch((error) => {
+    console.error('Prefetch skipped: failed to get token:', error);
+    return '';
+  });
+  if (!token) {
+    return;
+  }
+
+  const client = initApiClient(token, getActiveHost(settings).apiUrl);
+  const cache = getCacheManager();
+  const namespace = await resolveCacheNamespace(client, settings);
+
+  for (const section of sections) {
+    const fetcher = SECTION_FETCHERS[section];
+    if (!fetcher) {
+      continue;
+    }
+
+    try {
+      await fetcher(client, cache, {
+        priority: 'low',
+        ttl: getCacheTtl(settings, section),
+        namespace,
+      });
+    } catch (error) {
+      console.error(`Failed to prefetch ${section}:`, error);
+    }
+  }
+
+  try {
+    await refreshBadge(client, settings, namespace);
+  } catch (error) {
+    console.error('Failed to refresh badge:', error);
+  }
+
+  try {
+    await notifyNewItems(client, settings, namespace);
+  } catch (error) {
+    console.error('Failed to notify new items:', error);
+  }
+}
@@ -0,0 +1,220 @@
+import { RateLimit, RateLimitStatus, RequestPriority } from '../types/api';
+import { saveData, getData } from '../utils/storage';
+
+/**
+ * レートリミットガバナー
+ * 最新のレートリミット情報を記録し、残量に応じてリクエストを許可・延期する
+ */
+
+/**
+ * 状態を保存するストレージキー
+ */
+const STORAGE_KEY = 'rate_limit_state';
+
+/**
+ * 優先度ごとに残しておく残量の割合
+ * 残量がこの割合を下回ると、その優先度のリクエストは延期する
+ */
+const PRIORITY_RESERVE_RATIO: Record<RequestPriority, number> = {
+  high: 0,
+  normal: 0.02,
+  low: 0.2,
+};
+
+/**
+ * レートリミットのウィンドウ（1時間）
+ */
+const RATE_LIMIT_WINDOW = 60 * 60 * 1000;
+
+/**
+ * リクエスト可否の判定結果
+ */
+export interface RateLimitDecision {
+  allowed: boolean;
+  retryAt?: number; // 再試行可能になる時刻（ミリ秒）
+  reason?: string;
+}
+
+/**
+ * 保存する状態
+ */
+interface RateLimitState {
+  limits: Record<string, RateLimit>;
+  updatedAt: number;
+  blockedUntil: number;
+}
+
+/**
+ * レートリミットガバナークラス
+ */
+export class RateLimitGovernor {
+  private state: RateLimitState = {
+    limits: {},
+    updatedAt: 0,
+    blockedUntil: 0,
+  };
+  private loaded = false;
+
+  /**
+   * 最新のレートリミット情報を記録
+   * @param rateLimit レスポンスから抽出したレートリミット情報
+   */
+  async record(rateLimit: RateLimit): Promise<void> {
+    // レートリミットが無効なホスト（GHES等）ではヘッダーが返らない
+    if (!rateLimit.limit) {
+      return;
+    }
+
+    await this.load();
+    this.state.limits[rateLimit.resource || 'core'] = rateLimit;
+    this.state.updatedAt = Date.now();
+    await this.persist();
+  }
+
+  /**
+   * 指定時刻までリクエストを停止
+   * セカンダリレートリミット（Retry-After）を受けた場合に使用
+   * @param until 再開時刻（ミリ秒）
+   */
+  async block(until: number): Promise<void> {
+    await this.load();
+    this.state.blockedUntil = Math.max(this.state.blockedUntil, until);
+    await this.persist();
+    console.warn(`Requests blocked until ${new Date(until).toISOString()}`);
+  }
+
+  /**
+   * リクエストを送ってよいか判定
+   * @param priority リクエストの優先度
+   * @param resource レートリミットのリソース（core / graphql / search）
+   * @returns RateLimitDecision
+   */
+  async check(
+    priority: RequestPriority,
+    resource = 'core'
+  ): Promise<RateLimitDecision> {
+    await this.load();
+    const now = Date.now();
+
+    if (this.state.blockedUntil > now) {
+      return {
+        allowed: false,
+        retryAt: this.state.blockedUntil,
+        reason: 'secondary',
+      };
+    }
+
+    const rateLimit = this.state.limits[resource];
+    if (!rateLimit || rateLimit.reset * 1000 <= now) {
+      // 情報がない、またはリセット済み
+      return { allowed: true };
+    }
+
+    const reserve = Math.ceil(
+      rateLimit.limit * PRIORITY_RESERVE_RATIO[priority]
+    );
+    if (rateLimit.remaining <= reserve) {
+      return {
+        allowed: false,
+        retryAt: rateLimit.reset * 1000,
+        reason: priority === 'high' ? 'exhausted' : 'reserved',
+      };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * UIに表示するレートリミットの状況を取得
+   * @returns RateLimitStatus、または記録がない場合 null
+   */
+  async getStatus(): Promise<RateLimitStatus | null> {
+    await this.load();
+    const rateLimit = this.state.limits.core;
+    if (!rateLimit) {
+      return null;
+    }
+
+    const now = Date.now();
+    const isReset = rateLimit.reset * 1000 <= now;
+
+    return {
+      limit: rateLimit.limit,
+      remaining: isReset ? rateLimit.limit : rateLimit.remaining,
+      reset: rateLimit.reset,
+      updatedAt: this.state.updatedAt,
+      blockedUntil:
+        this.state.blockedUntil > now ? this.state.blockedUntil : null,
+      quotaOkUntil: isReset ? null : this.estimateQuotaOkUntil(rateLimit, now),
+    };
+  }
+
+  /**
+   * 現在の消費ペースで通常優先度の残量が尽きる時刻を推定
+   * リセットまで持つ場合は null
+   */
+  private estimateQuotaOkUntil(
+    rateLimit: RateLimit,
+    now: number
+  ): number | null {
+    const resetAt = rateLimit.reset * 1000;
+    const reserve = Math.ceil(rateLimit.limit * PRIORITY_RESERVE_RATIO.normal);
+    const available = rateLimit.remaining - reserve;
+
+    if (available <= 0) {
+      return now;
+    }
+
+    const elapsed = now - (resetAt - RATE_LIMIT_WINDOW);
+    if (elapsed <= 0 || rateLimit.used <= 0) {
+      return null;
+    }
+
+    const ratePerMs = rateLimit.used / elapsed;
+    const exhaustAt = now + available / ratePerMs;
+
+    return exhaustAt >= resetAt ? null : Math.floor(exhaustAt);
+  }
+
+  /**
+   * 保存された状態を読み込む（Service Worker再起動後に復元）
+   */
+  private async load(): Promise<void> {
+    if (this.loaded) {
+      return;
+    }
+
+    const saved = await getData<RateLimitState>(STORAGE_KEY);
+    if (saved) {
+      this.state = saved;
+    }
+    this.loaded = true;
+  }
+
+  /**
+   * 状態を保存
+   */
+  private async persist(): Promise<void> {
+    try {
+      await saveData(STORAGE_KEY, this.state);
+    } catch (error) {
+      console.error('Failed to persist rate limit state:', error);
+    }
+  }
+}
+
+/**
+ * レートリミットガバナーのシングルトンインスタンス
+ */
+let rateLimitGovernorInstance: RateLimitGovernor | null = null;
+
+/**
+ * レートリミットガバナーインスタンスを取得
+ * @returns RateLimitGovernor
+ */
+export function getRateLimitGovernor(): RateLimitGovernor {
+  if (!rateLimitGovernorInstance) {
+    rateLimitGovernorInstance = new RateLimitGovernor();
+  }
+  return rateLimitGovernorInstance;
+}
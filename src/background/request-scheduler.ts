@@ -0,0 +1,232 @@
+import { RequestPriority } from '../types/api';
+
+/**
+ * リクエストスケジューラー
+ * 同一リクエストの重複実行をまとめ、同時実行数と優先度を管理する
+ */
+
+/**
+ * 同時に実行するリクエスト数の上限
+ */
+const DEFAULT_MAX_CONCURRENCY = 4;
+
+/**
+ * 優先度の順序（小さいほど先に実行）
+ */
+const PRIORITY_ORDER: Record<RequestPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+/**
+ * 実行待ちのタスク
+ */
+interface QueuedTask {
+  key: string;
+  priority: number;
+  sequence: number;
+  start: () => void;
+  cancel: (reason: unknown) => void;
+}
+
+/**
+ * 実行中の処理
+ * すべての呼び出し元がキャンセルした場合のみ処理自体を中断する
+ */
+interface InFlightEntry {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+/**
+ * リクエストスケジューラークラス
+ */
+export class RequestScheduler {
+  private inFlight = new Map<string, InFlightEntry>();
+  private queue: QueuedTask[] = [];
+  private running = 0;
+  private sequence = 0;
+
+  constructor(private maxConcurrency: number = DEFAULT_MAX_CONCURRENCY) {}
+
+  /**
+   * 同じキーの処理が実行中であればその結果を共有し、なければ実行する
+   * 同時実行数の制限は受けない（内部のリクエストが schedule を通る場合に使用）
+   * @param key 処理を識別するキー
+   * @param task 実行する処理（共有のAbortSignalを受け取る）
+   * @param signal 呼び出し元のキャンセル用シグナル
+   * @returns Promise<T>
+   */
+  coalesce<T>(
+    key: string,
+    task: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(signal.reason);
+    }
+
+    let entry = this.inFlight.get(key);
+    if (!entry) {
+      const controller = new AbortController();
+      const promise = task(controller.signal).finally(() => {
+        if (this.inFlight.get(key) === entry) {
+          this.inFlight.delete(key);
+        }
+      });
+      // 全員がキャンセルした場合の未処理のrejectを防ぐ
+      promise.catch(() => undefined);
+      entry = { promise, controller, subscribers: 0 };
+      this.inFlight.set(key, entry);
+    }
+
+    return this.subscribe(key, entry, signal) as Promise<T>;
+  }
+
+  /**
+   * 優先度順・同時実行数の上限内で実行する
+   * 同じキーのリクエストが実行中または待機中であれば1つにまとめる
+   * @param key リクエストを識別するキー
+   * @param priority 優先度
+   * @param task 実行する処理（共有のAbortSignalを受け取る）
+   * @param signal 呼び出し元のキャンセル用シグナル
+   * @returns Promise<T>
+   */
+  schedule<T>(
+    key: string,
+    priority: RequestPriority,
+    task: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    // 待機中の同じリクエストにより高い優先度で合流した場合は繰り上げる
+    const queued = this.queue.find((item) => item.key === key);
+    if (queued && PRIORITY_ORDER[priority] < queued.priority) {
+      queued.priority = PRIORITY_ORDER[priority];
+      this.sortQueue();
+    }
+
+    return this.coalesce(
+      key,
+      (sharedSignal) => this.enqueue(key, priority, task, sharedSignal),
+      signal
+    );
+  }
+
+  /**
+   * 実行中の処理の結果を呼び出し元ごとに受け取る
+   * 呼び出し元がキャンセルした場合はその呼び出し元だけをrejectし、
+   * 残りの呼び出し元がいなくなった時点で処理を中断する
+   */
+  private subscribe(
+    key: string,
+    entry: InFlightEntry,
+    signal?: AbortSignal
+  ): Promise<unknown> {
+    entry.subscribers++;
+
+    // シグナルのない呼び出し元はキャンセルしないため、処理を最後まで必要とする
+    if (!signal) {
+      return entry.promise;
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        entry.subscribers--;
+        reject(signal.reason);
+
+        if (entry.subscribers === 0) {
+          if (this.inFlight.get(key) === entry) {
+            this.inFlight.delete(key);
+          }
+          entry.controller.abort(signal.reason);
+        }
+      };
+
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      entry.promise.then(resolve, reject).finally(() => {
+        signal.removeEventListener('abort', onAbort);
+      });
+    });
+  }
+
+  /**
+   * タスクを待機キューに追加
+   */
+  private enqueue<T>(
+    key: string,
+    priority: RequestPriority,
+    task: (signal: AbortSignal) => Promise<T>,
+    signal: AbortSignal
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const queued: QueuedTask = {
+        key,
+        priority: PRIORITY_ORDER[priority],
+        sequence: this.sequence++,
+        start: () => {
+          signal.removeEventListener('abort', onAbort);
+          task(signal)
+            .then(resolve, reject)
+            .finally(() => {
+              this.running--;
+              this.drain();
+            });
+        },
+        cancel: reject,
+      };
+
+      // 待機中にキャンセルされた場合はキューから取り除く
+      const onAbort = () => {
+        this.queue = this.queue.filter((item) => item !== queued);
+        queued.cancel(signal.reason);
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+
+      this.queue.push(queued);
+      this.sortQueue();
+      this.drain();
+    });
+  }
+
+  /**
+   * 空きがあれば待機中のタスクを開始
+   */
+  private drain(): void {
+    while (this.running < this.maxConcurrency && this.queue.length > 0) {
+      const next = this.queue.shift();
+      if (!next) {
+        break;
+      }
+      this.running++;
+      next.start();
+    }
+  }
+
+  /**
+   * 優先度、追加順で待機キューを並べ替え
+   */
+  private sortQueue(): void {
+    this.queue.sort(
+      (a, b) => a.priority - b.priority || a.sequence - b.sequence
+    );
+  }
+}
+
+/**
+ * リクエストスケジューラーのシングルトンインスタンス
+ */
+let requestSchedulerInstance: RequestScheduler | null = null;
+
+/**
+ * リクエストスケジューラーインスタンスを取得
+ * @returns RequestScheduler
+ */
+export function getRequestScheduler(): RequestScheduler {
+  if (!requestSchedulerInstance) {
+    requestSchedulerInstance = new RequestScheduler();
+  }
+  return requestSchedulerInstance;
+}
@@ -1,25 +1,92 @@
-import { Message } from '../types/messages';
 import {
-  getSettings,
-  saveSettings,
+  BaseMessage,
+  BroadcastMessage,
+  CacheDiagnostics,
+  DashboardData,
+  DashboardSection,
+  DASHBOARD_PORT_NAME,
+  DashboardPortMessage,
+  LoadDashboardMessage,
+  PROTOCOL_VERSION,
+  RpcMethod,
+  RpcRequest,
+  RpcResponse,
+  RpcResponseData,
+  SaveSettingsMessage,
+  SaveTokenMessage,
+  UnlockTokenMessage,
+  SetSecretStorageMessage,
+  ExportSecretsMessage,
+  PollDeviceFlowMessage,
+  PurgeCacheEntryMessage,
+  RepositoryOpenedMessage,
+} from '../types/messages';
+import { Repository } from '../types/api';
+import { Settings, CacheDataType } from '../types/settings';
+import { getSettings, saveSettings } from '../utils/storage';
+import {
   saveToken as saveTokenToStorage,
   getToken,
-} from '../utils/storage';
+  getAuthStatus,
+  unlockSecretStore,
+  lockSecretStore,
+  configureSecretStore,
+  migrateSecrets,
+} from '../utils/secret-store';
 import {
+  GitHubApiClient,
   initApiClient,
-  ApiError,
+  RequestCancelledError,
+  isCancelledError,
 } from './api-client';
-import { getCacheManager } from './cache-manager';
+import {
+  CacheManager,
+  getCacheManager,
+  getCacheNamespace,
+  getNamespacedKey,
+} from './cache-manager';
+import { getRateLimitGovernor } from './rate-limit-governor';
+import {
+  startDeviceFlow,
+  pollDeviceFlow,
+  getValidToken,
+  clearOAuthCredentials,
+} from './oauth-device-flow';
+import {
+  syncHostContentScripts,
+  getAllDashboardUrlPatterns,
+} from './host-permissions';
+import { getActiveHost } from '../utils/hosts';
+import { validateRpcRequest } from '../utils/validation';
+import { STALE_PAGE_MESSAGE } from '../utils/rpc';
+import { getSectionCapabilities } from '../utils/token-capabilities';
+import { getCacheSettings, getCacheTtl } from '../utils/cache-policy';
 import {
   validateToken,
-  fetchRepositories,
-  fetchMentionedIssues,
-  fetchProjects,
-  groupRepositoriesByOrganization,
-  sortRepositoriesByUpdated,
-  sortIssuesByUpdated,
-  sortProjectsByUpdated,
+  getTokenInfo,
+  getStoredTokenInfo,
+  resolveCacheNamespace,
+  checkRepositoryAccess,
+  reconcileRepositories,
+  CACHE_KEYS,
+  USER_CACHE_KEY,
+  ORGANIZATIONS_CACHE_KEY,
 } from './github-api';
+import {
+  getEnabledSections,
+  fetchSection,
+  peekSection,
+  isSectionFailed,
+  getDataErrorMessage,
+} from './dashboard-data';
+import { PREFETCH_ALARM, schedulePrefetch, runPrefetch } from './prefetch';
+import { refreshBadge, markDashboardViewed, clearBadge } from './badge';
+import { handleNotificationClick } from './notifications';
+import {
+  getOmniboxSuggestions,
+  getOmniboxUrl,
+  openOmniboxUrl,
+} from './omnibox';
 
 /**
  * Service Worker（Background Script）
@@ -39,7 +106,87 @@ chrome.runtime.onInstalled.addListener((details) => {
   } else if (details.reason === 'update') {
     // 更新時の処理
     console.log('Extension updated');
+
+    // 設定内に保存されていたトークンをシークレットストアに移す
+    migrateSecrets();
+
+    // 名前空間のない以前のキャッシュは、どのアカウントのデータか分からないため削除
+    const cache = getCacheManager();
+    [
+      ...Object.values(CACHE_KEYS),
+      USER_CACHE_KEY,
+      ORGANIZATIONS_CACHE_KEY,
+    ].forEach((key) => cache.delete(key));
   }
+
+  // GHESホスト用のContent Scriptを登録
+  getSettings().then(syncHostContentScripts);
+
+  // バックグラウンド更新のアラームを登録
+  getSettings().then(schedulePrefetch);
+});
+
+/**
+ * ブラウザ起動時の処理
+ */
+chrome.runtime.onStartup.addListener(() => {
+  getSettings().then(schedulePrefetch);
+});
+
+/**
+ * アラームの処理
+ */
+chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === PREFETCH_ALARM) {
+    runPrefetch().catch((error) => {
+      console.error('Prefetch error:', error);
+    });
+  }
+});
+
+/**
+ * ホスト権限が変更された時の処理
+ */
+chrome.permissions.onAdded.addListener(() => {
+  getSettings().then(syncHostContentScripts);
+});
+chrome.permissions.onRemoved.addListener(() => {
+  getSettings().then(syncHostContentScripts);
+});
+
+/**
+ * 通知がクリックされた時の処理
+ */
+chrome.notifications.onClicked.addListener((notificationId) => {
+  handleNotificationClick(notificationId).catch((error) => {
+    console.error('Failed to open notification:', error);
+  });
+});
+
+/**
+ * アドレスバー（omnibox）のキーワード検索
+ */
+chrome.omnibox.setDefaultSuggestion({
+  description: 'GitHubで「%s」を検索',
+});
+chrome.omnibox.onInputChanged.addListener((text, suggest) => {
+  getOmniboxSuggestions(text)
+    .then(suggest)
+    .catch((error) => {
+      console.error('Failed to get omnibox suggestions:', error);
+    });
+});
+chrome.omnibox.onInputEntered.addListener((text, disposition) => {
+  getOmniboxUrl(text)
+    .then(async (url) => {
+      await openOmniboxUrl(url, disposition);
+      verifyOpenedRepository((repo) => repo.html_url === url).catch((error) => {
+        console.error('Failed to verify opened repository:', error);
+      });
+    })
+    .catch((error) => {
+      console.error('Failed to open omnibox url:', error);
+    });
 });
 
 /**
@@ -48,56 +195,115 @@ chrome.runtime.onInstalled.addListener((details) => {
  */
 chrome.runtime.onMessage.addListener(
   (
-    message: Message,
-    _sender: chrome.runtime.MessageSender,
-    sendResponse: (response?: unknown) => void
+    message: unknown,
+    sender: chrome.runtime.MessageSender,
+    sendResponse: (response: RpcResponse<RpcMethod>) => void
   ) => {
-    console.log('Message received:', message.type);
-
     // 非同期処理を行うため、trueを返す
-    handleMessage(message)
-      .then((response) => {
-        sendResponse({ success: true, data: response });
-      })
-      .catch((error) => {
-        console.error('Error handling message:', error);
-        sendResponse({
-          success: false,
-          error: error instanceof Error ? error.message : String(error),
-        });
-      });
+    handleMessage(message, sender).then(sendResponse);
 
     return true; // 非同期レスポンスを示す
   }
 );
 
 /**
- * メッセージハンドラー
- * @param message 受信したメッセージ
- * @returns Promise<unknown>
+ * Port接続リスナー
+ * Content Scriptがダッシュボードのデータを受け取るために接続する
  */
-async function handleMessage(message: Message): Promise<unknown> {
-  switch (message.type) {
-    case 'GET_SETTINGS':
-      return await handleGetSettings();
-
-    case 'SAVE_SETTINGS':
-      return await handleSaveSettings(message);
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name === DASHBOARD_PORT_NAME) {
+    handleDashboardPort(port);
+  }
+});
 
-    case 'SAVE_TOKEN':
-      return await handleSaveToken(message);
+/**
+ * 要求の種類ごとのハンドラー
+ */
+type RpcHandlers = {
+  [M in RpcMethod]: (
+    message: RpcRequest<M>,
+    sender: chrome.runtime.MessageSender
+  ) => Promise<RpcResponseData<M>> | RpcResponseData<M>;
+};
+
+const rpcHandlers: RpcHandlers = {
+  GET_SETTINGS: handleGetSettings,
+  SAVE_SETTINGS: handleSaveSettings,
+  SAVE_TOKEN: handleSaveToken,
+  VALIDATE_TOKEN: handleValidateToken,
+  GET_TOKEN_INFO: handleGetTokenInfo,
+  GET_AUTH_STATUS: getAuthStatus,
+  UNLOCK_TOKEN: handleUnlockToken,
+  LOCK_TOKEN: async () => {
+    await lockSecretStore();
+    return await getAuthStatus();
+  },
+  SET_SECRET_STORAGE: handleSetSecretStorage,
+  EXPORT_SECRETS: handleExportSecrets,
+  START_DEVICE_FLOW: handleStartDeviceFlow,
+  POLL_DEVICE_FLOW: handlePollDeviceFlow,
+  REFRESH_DATA: handleRefreshData,
+  GET_CACHE_DIAGNOSTICS: handleGetCacheDiagnostics,
+  PURGE_CACHE_ENTRY: handlePurgeCacheEntry,
+  DASHBOARD_VIEWED: async () => {
+    await markDashboardViewed();
+    return { success: true };
+  },
+  REPOSITORY_OPENED: handleRepositoryOpened,
+  OPEN_OPTIONS: async () => {
+    await chrome.runtime.openOptionsPage();
+    return { success: true };
+  },
+};
 
-    case 'VALIDATE_TOKEN':
-      return await handleValidateToken();
+/**
+ * メッセージハンドラー
+ * プロトコルバージョンと内容を確認してから、要求の種類ごとのハンドラーを呼び出す
+ * @param message 受信したメッセージ
+ * @param sender 送信元
+ * @returns Promise<RpcResponse>
+ */
+async function handleMessage(
+  message: unknown,
+  sender: chrome.runtime.MessageSender
+): Promise<RpcResponse<RpcMethod>> {
+  // 拡張機能の更新前に読み込まれたページからのメッセージ
+  const protocolVersion = (message as BaseMessage | null)?.protocolVersion;
+  if (protocolVersion !== PROTOCOL_VERSION) {
+    console.warn('Protocol version mismatch:', protocolVersion);
+    return {
+      success: false,
+      error: STALE_PAGE_MESSAGE,
+      code: 'PROTOCOL_MISMATCH',
+    };
+  }
 
-    case 'GET_DATA':
-      return await handleGetData(message);
+  const validation = validateRpcRequest(message);
+  if (!validation.valid) {
+    console.error('Invalid message:', validation.errors);
+    return {
+      success: false,
+      error: `不正なメッセージです: ${validation.errors.join(', ')}`,
+      code: 'INVALID_REQUEST',
+    };
+  }
 
-    case 'REFRESH_DATA':
-      return await handleRefreshData();
+  const request = message as RpcRequest;
+  console.log('Message received:', request.type);
 
-    default:
-      throw new Error(`Unknown message type: ${(message as Message).type}`);
+  try {
+    const handler = rpcHandlers[request.type] as (
+      message: RpcRequest,
+      sender: chrome.runtime.MessageSender
+    ) => Promise<RpcResponseData<RpcMethod>> | RpcResponseData<RpcMethod>;
+    return { success: true, data: await handler(request, sender) };
+  } catch (error) {
+    console.error('Error handling message:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      code: 'HANDLER_ERROR',
+    };
   }
 }
 
@@ -112,13 +318,24 @@ async function handleGetSettings() {
 /**
  * 設定保存ハンドラー
  */
-async function handleSaveSettings(message: Message) {
-  if (message.type !== 'SAVE_SETTINGS') {
-    throw new Error('Invalid message type');
-  }
-
+async function handleSaveSettings(message: SaveSettingsMessage) {
   await saveSettings(message.settings);
 
+  // キャッシュしない設定にしたデータは保存済みのキャッシュも削除
+  await purgeUncachedData(message.settings);
+
+  // ホストの追加・削除に合わせてContent Scriptの登録を更新
+  await syncHostContentScripts(message.settings);
+
+  // バックグラウンド更新の間隔を反映
+  await schedulePrefetch(message.settings);
+
+  // バッジを表示しない設定にした場合はクリア
+  const badge = message.settings.badge;
+  if (!badge?.mentions && !badge?.reviewRequests) {
+    await clearBadge();
+  }
+
   // Content Scriptに設定更新を通知
   notifySettingsUpdated(message.settings);
 
@@ -126,115 +343,415 @@ async function handleSaveSettings(message: Message) {
 }
 
 /**
- * トークン保存ハンドラー
+ * TTLが0（キャッシュしない）のデータタイプのキャッシュを削除
+ * すべてのアカウント（名前空間）のキャッシュが対象
+ * @param settings 設定
  */
-async function handleSaveToken(message: Message) {
-  if (message.type !== 'SAVE_TOKEN') {
-    throw new Error('Invalid message type');
+async function purgeUncachedData(settings: Settings): Promise<void> {
+  const { ttl } = getCacheSettings(settings);
+  const cache = getCacheManager();
+  const uncachedKeys = (Object.keys(ttl) as CacheDataType[])
+    .filter((dataType) => ttl[dataType] === 0)
+    .map((dataType) => CACHE_KEYS[dataType]);
+
+  if (uncachedKeys.length === 0) {
+    return;
   }
 
+  for (const key of await cache.keys()) {
+    if (uncachedKeys.some((cacheKey) => key.endsWith(`:${cacheKey}`))) {
+      await cache.delete(key);
+    }
+  }
+}
+
+/**
+ * トークン保存ハンドラー
+ */
+async function handleSaveToken(message: SaveTokenMessage) {
+  const previousToken = await getToken();
   await saveTokenToStorage(message.token);
+
+  // 手動で保存したトークンはOAuthで更新しない
+  await clearOAuthCredentials();
+
+  // 以前のアカウントのキャッシュを表示しないよう削除
+  await clearPreviousAccountCache(previousToken, message.token);
+
   return { success: true };
 }
 
+/**
+ * トークンのロック解除ハンドラー
+ */
+async function handleUnlockToken(message: UnlockTokenMessage) {
+  await unlockSecretStore(message.passphrase);
+  return await getAuthStatus();
+}
+
+/**
+ * トークンの保存方法変更ハンドラー
+ */
+async function handleSetSecretStorage(message: SetSecretStorageMessage) {
+  await configureSecretStore(message.mode, message.passphrase);
+  return await getAuthStatus();
+}
+
+/**
+ * トークンのエクスポートハンドラー
+ * 平文のトークンを返すため、設定画面からの要求のみ受け付ける
+ */
+async function handleExportSecrets(
+  _message: ExportSecretsMessage,
+  sender: chrome.runtime.MessageSender
+) {
+  if (!isOptionsPageSender(sender)) {
+    throw new Error('トークンは設定画面からのみエクスポートできます');
+  }
+
+  return { token: await getToken() };
+}
+
+/**
+ * 送信元がこの拡張機能の設定画面か確認
+ * 設定画面はタブで開くため sender.tab では判定できない。Content Scriptの
+ * sender.url は表示中のページのURLになるため、URLで判定する
+ * @param sender 送信元
+ * @returns 設定画面の場合true
+ */
+function isOptionsPageSender(sender: chrome.runtime.MessageSender): boolean {
+  if (sender.id !== chrome.runtime.id || !sender.url) {
+    return false;
+  }
+
+  const url = new URL(sender.url);
+  return (
+    `${url.origin}${url.pathname}` ===
+    chrome.runtime.getURL('options/options.html')
+  );
+}
+
+/**
+ * トークン情報取得ハンドラー
+ * トークンが未設定の場合はnullを返す
+ */
+async function handleGetTokenInfo() {
+  const token = await getValidToken();
+  if (!token) {
+    return null;
+  }
+
+  const settings = await getSettings();
+  const client = initApiClient(token, getActiveHost(settings).apiUrl);
+  const tokenInfo = await getTokenInfo(client);
+
+  return {
+    tokenInfo,
+    capabilities: getSectionCapabilities(tokenInfo),
+  };
+}
+
+/**
+ * OAuthデバイスフロー開始ハンドラー
+ */
+async function handleStartDeviceFlow() {
+  const settings = await getSettings();
+  return await startDeviceFlow(settings);
+}
+
+/**
+ * OAuthデバイスフローのポーリングハンドラー
+ */
+async function handlePollDeviceFlow(message: PollDeviceFlowMessage) {
+  const settings = await getSettings();
+  const previousToken = await getToken();
+  const result = await pollDeviceFlow(
+    settings,
+    message.deviceCode,
+    message.interval
+  );
+
+  // サインインで別のアカウントに切り替わった場合に備えてキャッシュを削除
+  if (result.status === 'complete') {
+    await clearPreviousAccountCache(previousToken, await getToken());
+  }
+
+  return result;
+}
+
+/**
+ * 以前のトークンのアカウントのキャッシュを削除
+ * どのアカウントのものか分からない場合（ロック中など）はすべて削除する
+ * @param previousToken 変更前のトークン
+ * @param newToken 変更後のトークン
+ */
+async function clearPreviousAccountCache(
+  previousToken: string,
+  newToken: string
+): Promise<void> {
+  if (previousToken === newToken) {
+    return;
+  }
+
+  const settings = await getSettings();
+  const apiUrl = getActiveHost(settings).apiUrl;
+  const cache = getCacheManager();
+  const tokenInfo = previousToken
+    ? await getStoredTokenInfo(new GitHubApiClient(previousToken, apiUrl))
+    : null;
+
+  if (tokenInfo) {
+    await cache.clearNamespace(getCacheNamespace(apiUrl, tokenInfo.userId));
+  } else {
+    await cache.clearAll();
+  }
+}
+
 /**
  * トークン検証ハンドラー
  */
 async function handleValidateToken() {
   try {
-    const token = await getToken();
+    const token = await getValidToken();
 
     if (!token) {
+      const status = await getAuthStatus();
       return {
         valid: false,
-        message: 'トークンが設定されていません',
+        message: status.locked
+          ? 'トークンがロックされています'
+          : 'トークンが設定されていません',
       };
     }
 
     // APIクライアントを初期化
-    const client = initApiClient(token);
+    const settings = await getSettings();
+    const client = initApiClient(token, getActiveHost(settings).apiUrl);
 
     // トークンを検証
     const result = await validateToken(client);
 
-    return result;
+    return {
+      ...result,
+      capabilities: result.tokenInfo
+        ? getSectionCapabilities(result.tokenInfo)
+        : undefined,
+    };
   } catch (error) {
     console.error('Token validation error:', error);
     return {
       valid: false,
-      message:
-        error instanceof Error ? error.message : '検証に失敗しました',
+      message: error instanceof Error ? error.message : '検証に失敗しました',
     };
   }
 }
 
 /**
- * データ取得ハンドラー
+ * Port接続時の処理
+ * ダッシュボードのデータを取得できたセクションから順に送る
+ * @param port Content Scriptから接続されたPort
  */
-async function handleGetData(message: Message) {
-  if (message.type !== 'GET_DATA') {
-    throw new Error('Invalid message type');
-  }
+function handleDashboardPort(port: chrome.runtime.Port) {
+  const controller = new AbortController();
+  let connected = true;
 
-  try {
-    const token = await getToken();
+  const post = (message: DashboardPortMessage) => {
+    if (connected) {
+      port.postMessage(message);
+    }
+  };
 
-    if (!token) {
-      throw new Error('トークンが設定されていません');
+  // タブを閉じた・再取得したなどで切断された場合は取得を中断
+  port.onDisconnect.addListener(() => {
+    connected = false;
+    controller.abort(new RequestCancelledError());
+  });
+
+  port.onMessage.addListener((message: LoadDashboardMessage) => {
+    if (message?.type !== 'LOAD_DASHBOARD') {
+      return;
     }
 
-    // APIクライアントを初期化
-    const client = initApiClient(token);
-    const cache = getCacheManager();
+    // 拡張機能の更新前に読み込まれたページからの接続
+    if (message.protocolVersion !== PROTOCOL_VERSION) {
+      console.warn('Protocol version mismatch:', message.protocolVersion);
+      post({
+        type: 'DASHBOARD_ERROR',
+        error: STALE_PAGE_MESSAGE,
+        code: 'PROTOCOL_MISMATCH',
+      });
+      return;
+    }
+
+    streamDashboardData(post, controller.signal).catch((error) => {
+      if (isCancelledError(error)) {
+        return;
+      }
 
-    const dataType = message.dataType;
-    const result: {
-      repositories?: unknown[];
-      issues?: unknown[];
-      projects?: unknown[];
-    } = {};
-
-    // データタイプに応じてデータを取得
-    if (dataType === 'all' || dataType === 'repositories') {
-      const repositories = await fetchRepositories(client, cache);
-      const grouped = groupRepositoriesByOrganization(repositories);
-
-      // Organization別にソート
-      const sortedByOrg: Record<string, unknown[]> = {};
-      grouped.forEach((repos, org) => {
-        sortedByOrg[org] = sortRepositoriesByUpdated(repos);
+      console.error('Data fetch error:', error);
+      post({
+        type: 'DASHBOARD_ERROR',
+        error: getDataErrorMessage(error),
+        code: 'HANDLER_ERROR',
       });
+    });
+  });
+}
 
-      result.repositories = Object.entries(sortedByOrg).map(
-        ([org, repos]) => ({
-          organization: org,
-          repositories: repos,
-        })
-      );
-    }
+/**
+ * ダッシュボードのデータをセクションごとに取得して送る
+ * 表示するセクションを並列に取得し、レイアウトの先頭のセクションほど優先する
+ * キャッシュがあれば先に送り、期限切れの場合は更新したデータをもう一度送る
+ * @param post メッセージの送信関数
+ * @param signal キャンセル用のシグナル
+ */
+async function streamDashboardData(
+  post: (message: DashboardPortMessage) => void,
+  signal: AbortSignal
+): Promise<void> {
+  const { client, settings, cache, namespace } = await prepareDataFetch();
+
+  // 非表示のセクションはレートリミットを消費しないよう取得しない
+  await Promise.all(
+    getEnabledSections(settings).map(async (section) => {
+      const cached = await peekSection(cache, settings, section, namespace);
+      if (cached) {
+        post({
+          type: 'SECTION_DATA',
+          section,
+          data: cached.data,
+          fetchedAt: cached.timestamp,
+          stale: cached.stale,
+        });
+        if (!cached.stale) {
+          return;
+        }
+      }
 
-    if (dataType === 'all' || dataType === 'issues') {
-      const issues = await fetchMentionedIssues(client, cache);
-      result.issues = sortIssuesByUpdated(issues);
-    }
+      // 期限切れのデータの更新は他の画面と共有するため、切断してもキャンセルしない
+      const data = cached
+        ? await revalidateSection(client, settings, section, namespace)
+        : await fetchSection(client, settings, section, namespace, signal);
 
-    if (dataType === 'all' || dataType === 'projects') {
-      const projects = await fetchProjects(client, cache);
-      result.projects = sortProjectsByUpdated(projects);
-    }
+      // 期限切れのデータを送った場合は、更新に失敗してもその表示を維持する
+      if (cached && isSectionFailed(data, section)) {
+        return;
+      }
 
-    return result;
-  } catch (error) {
-    console.error('Data fetch error:', error);
+      post({
+        type: 'SECTION_DATA',
+        section,
+        data,
+        fetchedAt: Date.now(),
+        stale: false,
+      });
+    })
+  );
+
+  // アイコンのバッジの件数を更新（完了を待たない）
+  refreshBadge(client, settings, namespace).catch((error) => {
+    console.error('Failed to refresh badge:', error);
+  });
+
+  post({
+    type: 'DASHBOARD_COMPLETE',
+    rateLimit: await getRateLimitGovernor().getStatus(),
+    tokenExpiresAt: await getTokenExpiresAt(client),
+  });
+}
 
-    if (error instanceof ApiError) {
-      throw new Error(
-        `API Error (${error.status}): ${error.message}`
-      );
-    }
+/**
+ * 実行中の期限切れセクションの更新（キャッシュの名前空間とセクションごと）
+ */
+const activeRevalidations = new Map<string, Promise<DashboardData>>();
 
-    throw error;
+/**
+ * 期限切れのセクションを更新
+ * 複数の画面（タブ・ポップアップ）が同時に開いている場合も、更新は1回だけ行い、
+ * 更新したデータはダッシュボードを表示中のすべてのタブに送る
+ * @param client APIクライアント
+ * @param settings 設定
+ * @param section セクション
+ * @param namespace キャッシュの名前空間
+ * @returns 該当するセクションの取得結果のみのDashboardData
+ */
+function revalidateSection(
+  client: GitHubApiClient,
+  settings: Settings,
+  section: DashboardSection,
+  namespace: string
+): Promise<DashboardData> {
+  const key = `${namespace}:${section}`;
+  const active = activeRevalidations.get(key);
+  if (active) {
+    return active;
+  }
+
+  const revalidation = fetchSection(client, settings, section, namespace)
+    .then((data) => {
+      // 更新前に読み込みを終えたタブにも新しいデータを送る
+      if (!isSectionFailed(data, section)) {
+        broadcastToDashboardTabs(settings, {
+          type: 'SECTION_UPDATED',
+          section,
+          data,
+          fetchedAt: Date.now(),
+        });
+      }
+      return data;
+    })
+    .finally(() => {
+      activeRevalidations.delete(key);
+    });
+  activeRevalidations.set(key, revalidation);
+  return revalidation;
+}
+
+/**
+ * データ取得に使うAPIクライアントとキャッシュの名前空間を準備
+ * トークンが未設定・ロック中の場合は例外を投げる
+ * @returns APIクライアント、設定、キャッシュマネージャー、キャッシュの名前空間
+ */
+async function prepareDataFetch(): Promise<{
+  client: GitHubApiClient;
+  settings: Settings;
+  cache: CacheManager;
+  namespace: string;
+}> {
+  const token = await getValidToken();
+
+  if (!token) {
+    const status = await getAuthStatus();
+    throw new Error(
+      status.locked
+        ? 'トークンがロックされています。設定画面でロックを解除してください'
+        : 'トークンが設定されていません'
+    );
   }
+
+  // APIクライアントを初期化
+  const settings = await getSettings();
+  const client = initApiClient(token, getActiveHost(settings).apiUrl);
+  const namespace = await resolveCacheNamespace(client, settings);
+
+  return { client, settings, cache: getCacheManager(), namespace };
+}
+
+/**
+ * トークンの有効期限を取得
+ * 取得できなくてもデータは返すため、失敗した場合はnullとする
+ * @param client APIクライアント
+ * @returns 有効期限（ミリ秒）、期限なし・取得できない場合 null
+ */
+async function getTokenExpiresAt(
+  client: GitHubApiClient
+): Promise<number | null> {
+  return getTokenInfo(client)
+    .then((tokenInfo) => tokenInfo.expiresAt)
+    .catch((error) => {
+      console.error('Failed to get token info:', error);
+      return null;
+    });
 }
 
 /**
@@ -255,30 +772,111 @@ async function handleRefreshData() {
   }
 }
 
+/**
+ * キャッシュの診断情報取得ハンドラー
+ */
+async function handleGetCacheDiagnostics(): Promise<CacheDiagnostics> {
+  const cache = getCacheManager();
+  const entries = await cache.getDiagnostics();
+  const stats = await cache.getStats();
+  const settings = await getSettings();
+
+  return {
+    entries,
+    totals: stats.totals,
+    statsSince: stats.since,
+    totalSize: entries.reduce((sum, entry) => sum + entry.size, 0),
+    storageBudget: getCacheSettings(settings).storageBudget,
+    rateLimit: await getRateLimitGovernor().getStatus(),
+  };
+}
+
+/**
+ * キャッシュエントリ削除ハンドラー
+ */
+async function handlePurgeCacheEntry(message: PurgeCacheEntryMessage) {
+  await getCacheManager().delete(message.key);
+
+  return { success: true };
+}
+
+/**
+ * リポジトリを開いた時のハンドラー
+ * 開く操作を待たせないよう、アクセスできるかの確認は完了を待たない
+ */
+function handleRepositoryOpened(message: RepositoryOpenedMessage) {
+  verifyOpenedRepository((repo) => repo.full_name === message.fullName).catch(
+    (error) => {
+      console.error('Failed to verify opened repository:', error);
+    }
+  );
+
+  return { success: true };
+}
+
+/**
+ * キャッシュした一覧から開いたリポジトリにアクセスできるか確認
+ * 削除された・アクセス権を失ったリポジトリは差分同期では一覧から消えないため、
+ * アクセスできない場合はすぐに全件取得し直し、ダッシュボードを表示中のタブに送る
+ * @param isOpened 開いたリポジトリかどうか判定する関数
+ */
+async function verifyOpenedRepository(
+  isOpened: (repo: Repository) => boolean
+): Promise<void> {
+  const { client, settings, cache, namespace } = await prepareDataFetch();
+  const repositories = await cache.getEntry<Repository[]>(
+    getNamespacedKey(namespace, CACHE_KEYS.repositories)
+  );
+  const repo = repositories?.data.find(isOpened);
+  if (
+    !repo ||
+    (await checkRepositoryAccess(client, repo.full_name, { priority: 'low' }))
+  ) {
+    return;
+  }
+
+  await reconcileRepositories(client, cache, {
+    priority: 'low',
+    ttl: getCacheTtl(settings, 'repositories'),
+    namespace,
+  });
+  // 取得し直した一覧をキャッシュから読み込んで、表示中のタブに送る
+  await revalidateSection(client, settings, 'repositories', namespace);
+}
+
 /**
  * 設定更新通知
  * すべてのタブのContent Scriptに設定変更を通知
  */
-async function notifySettingsUpdated(settings: unknown) {
+async function notifySettingsUpdated(settings: Settings) {
+  await broadcastToDashboardTabs(settings, {
+    type: 'SETTINGS_UPDATED',
+    settings,
+  });
+}
+
+/**
+ * ダッシュボードを表示中のすべてのタブにメッセージを送る
+ * @param settings 設定（対象ホストの判定に使用）
+ * @param message 送信するメッセージ
+ */
+async function broadcastToDashboardTabs(
+  settings: Settings,
+  message: BroadcastMessage
+) {
   try {
     const tabs = await chrome.tabs.query({
-      url: ['https://github.com/', 'https://github.com/?*'],
+      url: getAllDashboardUrlPatterns(settings),
     });
 
     for (const tab of tabs) {
       if (tab.id) {
-        chrome.tabs
-          .sendMessage(tab.id, {
-            type: 'SETTINGS_UPDATED',
-            settings,
-          })
-          .catch((error) => {
-            console.error('Failed to notify tab:', tab.id, error);
-          });
+        chrome.tabs.sendMessage(tab.id, message).catch((error) => {
+          console.error('Failed to notify tab:', tab.id, error);
+        });
       }
     }
   } catch (error) {
-    console.error('Failed to notify settings updated:', error);
+    console.error(`Failed to broadcast ${message.type}:`, error);
   }
 }
-
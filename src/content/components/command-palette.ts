@@ -0,0 +1,357 @@
+import { fuzzyFilter } from '../../utils/fuzzy-match';
+import { createElement, createEmptyState } from '../dom-manipulator';
+
+/**
+ * コマンドパレットコンポーネント
+ * 表示中のデータと操作をキーボードで検索・実行する
+ */
+
+/**
+ * コマンドパレットの項目
+ */
+export interface CommandPaletteItem {
+  title: string;
+  category: string; // 例: リポジトリ、Issue、操作
+  detail?: string; // 補足（説明、リポジトリ名など）
+  run: () => void;
+}
+
+/**
+ * 表示する項目の上限
+ */
+const MAX_RESULTS = 50;
+
+/**
+ * オーバーレイのID（候補の要素IDのプレフィックスにも使用）
+ */
+const OVERLAY_ID = 'gdc-command-palette';
+
+/**
+ * 表示中のパレットの状態
+ */
+interface PaletteState {
+  overlay: HTMLDivElement;
+  input: HTMLInputElement;
+  list: HTMLDivElement;
+  items: CommandPaletteItem[];
+  results: CommandPaletteItem[];
+  selectedIndex: number;
+  previousFocus: Element | null;
+}
+
+let state: PaletteState | null = null;
+
+/**
+ * コマンドパレットが表示中か確認
+ * @returns 表示中の場合true
+ */
+export function isCommandPaletteOpen(): boolean {
+  return state !== null;
+}
+
+/**
+ * コマンドパレットを表示
+ * @param items 検索対象の項目
+ */
+export function openCommandPalette(items: CommandPaletteItem[]): void {
+  if (state) {
+    closeCommandPalette();
+  }
+
+  const overlay = createElement('div', {
+    id: OVERLAY_ID,
+    styles: {
+      position: 'fixed',
+      inset: '0',
+      zIndex: '1000',
+      display: 'flex',
+      justifyContent: 'center',
+      alignItems: 'flex-start',
+      paddingTop: '12vh',
+      backgroundColor: 'rgba(27, 31, 36, 0.5)',
+    },
+  });
+
+  const panel = createElement('div', {
+    attributes: {
+      role: 'dialog',
+      'aria-modal': 'true',
+      'aria-label': 'コマンドパレット',
+    },
+    styles: {
+      width: '640px',
+      maxWidth: 'calc(100vw - 32px)',
+      backgroundColor: '#ffffff',
+      border: '1px solid #d0d7de',
+      borderRadius: '12px',
+      boxShadow: '0 8px 24px rgba(140, 149, 159, 0.2)',
+      overflow: 'hidden',
+    },
+  });
+
+  const input = createElement('input', {
+    attributes: {
+      type: 'text',
+      placeholder: 'リポジトリ・Issue・プロジェクト・操作を検索',
+      role: 'combobox',
+      'aria-expanded': 'true',
+      'aria-controls': `${OVERLAY_ID}-list`,
+      'aria-autocomplete': 'list',
+    },
+    styles: {
+      width: '100%',
+      padding: '14px 16px',
+      border: 'none',
+      borderBottom: '1px solid #d0d7de',
+      fontSize: '16px',
+      outline: 'none',
+    },
+  });
+
+  const list = createElement('div', {
+    id: `${OVERLAY_ID}-list`,
+    attributes: { role: 'listbox' },
+    styles: {
+      maxHeight: '360px',
+      overflowY: 'auto',
+      padding: '4px 0',
+    },
+  });
+
+  panel.appendChild(input);
+  panel.appendChild(list);
+  overlay.appendChild(panel);
+
+  state = {
+    overlay,
+    input,
+    list,
+    items,
+    results: [],
+    selectedIndex: 0,
+    previousFocus: document.activeElement,
+  };
+
+  // パレットの外側をクリックした場合は閉じる
+  overlay.addEventListener('mousedown', (event) => {
+    if (event.target === overlay) {
+      closeCommandPalette();
+    }
+  });
+  input.addEventListener('input', updateResults);
+  input.addEventListener('keydown', handleKeyDown);
+
+  document.body.appendChild(overlay);
+  input.focus();
+  updateResults();
+}
+
+/**
+ * コマンドパレットを閉じる
+ * フォーカスは開く前の要素に戻す
+ */
+export function closeCommandPalette(): void {
+  if (!state) {
+    return;
+  }
+
+  const { overlay, previousFocus } = state;
+  state = null;
+  overlay.remove();
+
+  if (previousFocus instanceof HTMLElement) {
+    previousFocus.focus();
+  }
+}
+
+/**
+ * 入力に合わせて候補を更新
+ * 未入力の場合は登録順に表示する
+ */
+function updateResults() {
+  if (!state) {
+    return;
+  }
+
+  const query = state.input.value.trim();
+  state.results = query
+    ? fuzzyFilter(
+        state.items,
+        query,
+        (item) => `${item.title} ${item.detail || ''}`,
+        MAX_RESULTS
+      ).map(({ item }) => item)
+    : state.items.slice(0, MAX_RESULTS);
+  state.selectedIndex = 0;
+
+  renderResults();
+}
+
+/**
+ * 候補を描画
+ */
+function renderResults() {
+  if (!state) {
+    return;
+  }
+
+  const { list, results, selectedIndex } = state;
+  list.innerHTML = '';
+
+  if (results.length === 0) {
+    list.appendChild(createEmptyState('一致する項目がありません'));
+    state.input.removeAttribute('aria-activedescendant');
+    return;
+  }
+
+  results.forEach((item, index) => {
+    list.appendChild(createResultItem(item, index, index === selectedIndex));
+  });
+
+  const optionId = `${OVERLAY_ID}-option-${selectedIndex}`;
+  state.input.setAttribute('aria-activedescendant', optionId);
+  document.getElementById(optionId)?.scrollIntoView({ block: 'nearest' });
+}
+
+/**
+ * 候補の要素を作成
+ * @param item 項目
+ * @param index 候補内の位置
+ * @param selected 選択中の場合true
+ * @returns 候補の要素
+ */
+function createResultItem(
+  item: CommandPaletteItem,
+  index: number,
+  selected: boolean
+): HTMLElement {
+  const option = createElement('div', {
+    id: `${OVERLAY_ID}-option-${index}`,
+    attributes: {
+      role: 'option',
+      'aria-selected': String(selected),
+    },
+    styles: {
+      display: 'flex',
+      alignItems: 'center',
+      gap: '12px',
+      padding: '8px 16px',
+      cursor: 'pointer',
+      backgroundColor: selected ? '#f6f8fa' : 'transparent',
+      borderLeft: selected ? '2px solid #0969da' : '2px solid transparent',
+    },
+  });
+
+  const category = createElement('span', {
+    textContent: item.category,
+    styles: {
+      flexShrink: '0',
+      minWidth: '72px',
+      fontSize: '12px',
+      color: '#57606a',
+    },
+  });
+
+  const text = createElement('div', {
+    styles: {
+      display: 'flex',
+      flexDirection: 'column',
+      minWidth: '0',
+    },
+  });
+
+  text.appendChild(
+    createElement('span', {
+      textContent: item.title,
+      styles: {
+        fontSize: '14px',
+        color: '#24292f',
+        overflow: 'hidden',
+        textOverflow: 'ellipsis',
+        whiteSpace: 'nowrap',
+      },
+    })
+  );
+
+  if (item.detail) {
+    text.appendChild(
+      createElement('span', {
+        textContent: item.detail,
+        styles: {
+          fontSize: '12px',
+          color: '#57606a',
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          whiteSpace: 'nowrap',
+        },
+      })
+    );
+  }
+
+  option.appendChild(category);
+  option.appendChild(text);
+
+  option.addEventListener('mousemove', () => {
+    if (state && state.selectedIndex !== index) {
+      state.selectedIndex = index;
+      renderResults();
+    }
+  });
+  option.addEventListener('click', () => runItem(item));
+
+  return option;
+}
+
+/**
+ * キーボード操作
+ * 上下キー（Ctrl+N / Ctrl+P）で選択、Enterで実行、Escapeで閉じる
+ */
+function handleKeyDown(event: KeyboardEvent) {
+  // IMEで変換中のEnterなどは入力欄に任せる
+  if (!state || event.isComposing) {
+    return;
+  }
+
+  if (event.key === 'ArrowDown' || (event.ctrlKey && event.key === 'n')) {
+    moveSelection(1);
+  } else if (event.key === 'ArrowUp' || (event.ctrlKey && event.key === 'p')) {
+    moveSelection(-1);
+  } else if (event.key === 'Enter') {
+    const item = state.results[state.selectedIndex];
+    if (item) {
+      runItem(item);
+    }
+  } else if (event.key === 'Escape') {
+    closeCommandPalette();
+  } else if (event.key !== 'Tab') {
+    // Tabはフォーカスをパレットの外に移さないため無効にする
+    return;
+  }
+
+  event.preventDefault();
+  event.stopPropagation();
+}
+
+/**
+ * 選択中の候補を移動（端まで行った場合は反対側に戻る）
+ * @param offset 移動量
+ */
+function moveSelection(offset: number) {
+  if (!state || state.results.length === 0) {
+    return;
+  }
+
+  const count = state.results.length;
+  state.selectedIndex = (state.selectedIndex + offset + count) % count;
+  renderResults();
+}
+
+/**
+ * 項目を実行
+ * パレットを閉じてから実行する（実行中にパレットを開き直せるように）
+ * @param item 項目
+ */
+function runItem(item: CommandPaletteItem) {
+  closeCommandPalette();
+  item.run();
+}
@@ -1,4 +1,5 @@
 import { Repository } from '../../types/api';
+import { call } from '../../utils/rpc';
 import {
   createElement,
   createEmptyState,
@@ -119,8 +120,14 @@ function createRepositoryItem(repo: Repository): HTMLElement {
   });
 
   // クリックでリポジトリを開く
+  // アクセスできなくなったリポジトリであれば、Service Workerが一覧を取得し直す
   item.addEventListener('click', () => {
     window.open(repo.html_url, '_blank');
+    call({ type: 'REPOSITORY_OPENED', fullName: repo.full_name }).catch(
+      (error) => {
+        console.error('Failed to notify repository opened:', error);
+      }
+    );
   });
 
   // 左側: リポジトリ情報
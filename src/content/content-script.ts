@@ -1,5 +1,17 @@
-import { Message, SettingsUpdatedMessage } from '../types/messages';
-import { Settings } from '../types/settings';
+import {
+  BroadcastMessage,
+  SettingsUpdatedMessage,
+  SectionUpdatedMessage,
+  DashboardData,
+  DashboardPortMessage,
+  DashboardSection,
+  DashboardSectionData,
+  DASHBOARD_SECTIONS,
+} from '../types/messages';
+import { Settings, DEFAULT_SETTINGS } from '../types/settings';
+import { AuthStatus } from '../types/auth';
+import { getActiveHost, isDashboardUrl } from '../utils/hosts';
+import { call, connectDashboardPort, STALE_PAGE_MESSAGE } from '../utils/rpc';
 import {
   applyLayout,
   rebuildLayout,
@@ -9,8 +21,21 @@ import {
   getLayoutToggleInput,
   setHeaderLoadingState,
   updateLayoutModeLabel,
+  updateRateLimitStatus,
+  updateTokenExpiryWarning,
+  isSectionCollapsed,
+  toggleSectionCollapsed,
 } from './layout-renderer';
-import { createNotificationBanner } from './dom-manipulator';
+import {
+  createNotificationBanner,
+  formatRelativeTime,
+} from './dom-manipulator';
+import {
+  CommandPaletteItem,
+  openCommandPalette,
+  isCommandPaletteOpen,
+  closeCommandPalette,
+} from './components/command-palette';
 
 /**
  * Content Script
@@ -19,11 +44,22 @@ import { createNotificationBanner } from './dom-manipulator';
 
 console.log('GitHub Dashboard Customizer: Content Script loaded');
 
+/**
+ * 実行中のデータ取得
+ */
+interface DataFetch {
+  port: chrome.runtime.Port;
+  fetchedAt: Partial<Record<DashboardSection, number>>; // 受け取ったセクションの取得時刻
+  finish: () => void; // 取得の完了を待っている呼び出し元に通知する
+}
+
 let currentSettings: Settings | null = null;
 let isCustomLayoutActive = true;
 let layoutToggleInputRef: HTMLInputElement | null = null;
 let layoutToggleListener: ((event: Event) => void) | null = null;
-let isFetchingData = false;
+let currentDataFetch: DataFetch | null = null;
+let lastFetchedAt: number | null = null; // 表示中のデータの取得時刻
+let renderedData: Partial<DashboardSectionData> | null = null; // 表示中のデータ（コマンドパレットの検索対象）
 
 /**
  * 初期化処理
@@ -31,6 +67,9 @@ let isFetchingData = false;
 async function init() {
   console.log('Initializing content script...');
 
+  // 設定を取得（ダッシュボード判定に使用中のホストが必要）
+  await loadSettings();
+
   // GitHubダッシュボードページかどうか確認
   if (!isGitHubDashboard()) {
     console.log('Not a GitHub dashboard page');
@@ -39,9 +78,6 @@ async function init() {
 
   console.log('GitHub dashboard detected');
 
-  // 設定を取得
-  await loadSettings();
-
   // ページが完全に読み込まれてからDOM操作を開始
   if (document.readyState === 'loading') {
     document.addEventListener('DOMContentLoaded', () => {
@@ -56,14 +92,11 @@ async function init() {
 
 /**
  * GitHubダッシュボードページかどうか確認
+ * 使用中のホスト（GitHub.com または GHES）のダッシュボードのみ対象とする
  */
 function isGitHubDashboard(): boolean {
-  const url = window.location.href;
-  return (
-    url === 'https://github.com/' ||
-    url === 'https://github.com' ||
-    url.startsWith('https://github.com/?')
-  );
+  const host = getActiveHost(currentSettings || DEFAULT_SETTINGS);
+  return isDashboardUrl(window.location.href, host);
 }
 
 /**
@@ -71,9 +104,7 @@ function isGitHubDashboard(): boolean {
  */
 async function loadSettings() {
   try {
-    const response = await chrome.runtime.sendMessage({
-      type: 'GET_SETTINGS',
-    } as Message);
+    const response = await call({ type: 'GET_SETTINGS' });
 
     if (response.success) {
       currentSettings = response.data;
@@ -108,10 +139,11 @@ async function applyCustomizations() {
     setupHeaderControls();
     console.log('Layout applied successfully');
 
-    // PATが設定されているかチェック
-    if (!currentSettings.token || currentSettings.token.trim() === '') {
-      // PATが未設定の場合、通知バナーを表示
-      showTokenRequiredBanner();
+    // PATが設定されているかチェック（トークンは設定とは別に保存されている）
+    const authStatus = await loadAuthStatus();
+    if (!authStatus || !authStatus.hasToken || authStatus.locked) {
+      // PATが未設定またはロック中の場合、通知バナーを表示
+      showTokenRequiredBanner(authStatus?.locked ?? false);
       return;
     }
 
@@ -122,10 +154,28 @@ async function applyCustomizations() {
   }
 }
 
+/**
+ * 認証状態を取得
+ */
+async function loadAuthStatus(): Promise<AuthStatus | null> {
+  try {
+    const response = await call({ type: 'GET_AUTH_STATUS' });
+
+    if (response.success) {
+      return response.data;
+    }
+    console.error('Failed to get auth status:', response.error);
+  } catch (error) {
+    console.error('Error getting auth status:', error);
+  }
+  return null;
+}
+
 /**
  * PAT未設定時の通知バナーを表示
+ * @param isLocked 暗号化されたトークンがロックされている場合true
  */
-function showTokenRequiredBanner() {
+function showTokenRequiredBanner(isLocked = false) {
   const container = document.getElementById('github-dashboard-customizer-root');
   if (!container) {
     return;
@@ -141,12 +191,11 @@ function showTokenRequiredBanner() {
   const banner = createNotificationBanner({
     type: 'warning',
     title: 'GitHub Dashboard Customizer が有効です',
-    message:
-      'Personal Access Token (PAT) が設定されていません。設定ページでトークンを設定してください。',
+    message: isLocked
+      ? 'トークンがロックされています。設定ページでパスフレーズを入力してロックを解除してください。'
+      : 'Personal Access Token (PAT) が設定されていません。設定ページでトークンを設定してください。',
     actionText: '設定を開く',
-    onAction: () => {
-      chrome.runtime.openOptionsPage();
-    },
+    onAction: openOptionsPage,
   });
 
   // コンテナの先頭に挿入
@@ -230,7 +279,8 @@ function teardownCustomLayout() {
 
   layoutToggleInputRef = null;
   layoutToggleListener = null;
-  isFetchingData = false;
+  renderedData = null;
+  cancelDataFetch();
 
   const root = document.getElementById('github-dashboard-customizer-root');
   if (root) {
@@ -242,89 +292,175 @@ function teardownCustomLayout() {
 
 /**
  * データを取得して描画
+ * Service WorkerとのPortで、取得できたセクションから順に描画する
+ * @returns 取得が完了・失敗・キャンセルした時に解決するPromise
  */
-async function fetchAndRenderData() {
+function fetchAndRenderData(): Promise<void> {
   if (!isCustomLayoutActive) {
     console.log('Custom layout disabled; skipping data fetch.');
-    return;
+    return Promise.resolve();
   }
 
-  if (isFetchingData) {
+  if (currentDataFetch) {
     console.log('Data fetch already in progress; skipping duplicate request.');
-    return;
+    return Promise.resolve();
   }
 
-  try {
-    isFetchingData = true;
-    setHeaderLoadingState(true);
-    console.log('Fetching data...');
+  const port = connectDashboardPort();
+  if (!port) {
+    showDataError(STALE_PAGE_MESSAGE);
+    return Promise.resolve();
+  }
 
-    const response = await chrome.runtime.sendMessage({
-      type: 'GET_DATA',
-      dataType: 'all',
-    } as Message);
+  console.log('Fetching data...');
+  setHeaderLoadingState(true);
 
-    if (response.success) {
-      console.log('Data fetched:', response.data);
-      if (!isCustomLayoutActive) {
-        console.log('Custom layout disabled during fetch; skipping render.');
+  return new Promise((resolve) => {
+    const dataFetch: DataFetch = { port, fetchedAt: {}, finish: resolve };
+    currentDataFetch = dataFetch;
+
+    port.onMessage.addListener((message: DashboardPortMessage) => {
+      // キャンセル済み、またはカスタムレイアウトが無効化された場合は描画しない
+      if (currentDataFetch !== dataFetch || !isCustomLayoutActive) {
         return;
       }
-      renderData(response.data);
-    } else {
-      console.error('Failed to fetch data:', response.error);
-      // エラーを各セクションに表示
-      showDataError(response.error || 'データの取得に失敗しました');
-    }
-  } catch (error) {
-    console.error('Error fetching data:', error);
-    showDataError(
-      error instanceof Error ? error.message : 'データの取得に失敗しました'
-    );
-  } finally {
-    setHeaderLoadingState(false);
-    isFetchingData = false;
-  }
+      handleDashboardPortMessage(dataFetch, message);
+    });
+
+    // Service Workerが停止した場合など、完了前に切断された
+    port.onDisconnect.addListener(() => {
+      if (currentDataFetch !== dataFetch) {
+        return;
+      }
+      console.error('Data port disconnected:', chrome.runtime.lastError);
+      showDataError('データの取得が中断されました', dataFetch);
+      finishDataFetch();
+    });
+  });
 }
 
 /**
- * データを描画
+ * Portで受け取ったメッセージの処理
+ * @param dataFetch 実行中のデータ取得
+ * @param message 受け取ったメッセージ
  */
-function renderData(data: {
-  repositories?: unknown[];
-  issues?: unknown[];
-  projects?: unknown[];
-}) {
-  // リポジトリデータを描画
-  if (data.repositories) {
-    renderSectionData('section-repositories', {
-      repositories: data.repositories as never,
-    });
+function handleDashboardPortMessage(
+  dataFetch: DataFetch,
+  message: DashboardPortMessage
+) {
+  switch (message.type) {
+    case 'SECTION_DATA':
+      dataFetch.fetchedAt[message.section] = message.fetchedAt;
+      lastFetchedAt = Math.min(...Object.values(dataFetch.fetchedAt));
+      renderSections(message.data);
+
+      // 期限切れのデータは、Service Workerが更新したデータをこの後に送る
+      if (message.stale) {
+        showRevalidatingState();
+      }
+      break;
+
+    case 'DASHBOARD_COMPLETE':
+      updateRateLimitStatus(message.rateLimit);
+      updateTokenExpiryWarning(message.tokenExpiresAt);
+
+      // 表示したのでアイコンのバッジをクリア
+      notifyDashboardViewed();
+      finishDataFetch();
+      break;
+
+    case 'DASHBOARD_ERROR':
+      console.error('Failed to fetch data:', message.error);
+      showDataError(message.error, dataFetch);
+      finishDataFetch();
+      break;
   }
+}
 
-  // Issueデータを描画
-  if (data.issues) {
-    renderSectionData('section-issues', {
-      issues: data.issues as never,
-    });
+/**
+ * 実行中のデータ取得を終了
+ * Portを閉じ、完了を待っている呼び出し元に通知する
+ */
+function finishDataFetch() {
+  const dataFetch = currentDataFetch;
+  currentDataFetch = null;
+
+  if (!dataFetch) {
+    return;
   }
 
-  // プロジェクトデータを描画
-  if (data.projects) {
-    renderSectionData('section-projects', {
-      projects: data.projects as never,
-    });
+  setHeaderLoadingState(false);
+  dataFetch.port.disconnect();
+  dataFetch.finish();
+}
+
+/**
+ * 実行中のデータ取得をキャンセル
+ * Portを閉じると、Service WorkerでもAPIリクエストが中断される
+ */
+function cancelDataFetch() {
+  if (currentDataFetch) {
+    finishDataFetch();
   }
 }
 
+/**
+ * 古いデータを表示中であることをヘッダーに表示
+ */
+function showRevalidatingState() {
+  const fetchedAt = lastFetchedAt
+    ? formatRelativeTime(new Date(lastFetchedAt).toISOString())
+    : '以前';
+  setHeaderLoadingState(true, `${fetchedAt}のデータを表示中、更新しています…`);
+}
+
+/**
+ * データに含まれるセクションを描画
+ * 取得に失敗したセクションにはエラーを表示し、他のセクションはそのまま描画する
+ * @param data 描画するデータ
+ */
+function renderSections(data: DashboardData) {
+  DASHBOARD_SECTIONS.forEach((section) => {
+    const result = data[section];
+    if (!result) {
+      return;
+    }
+
+    if ('error' in result) {
+      console.error(`Failed to fetch ${section}:`, result.error);
+      renderSectionError(`section-${section}`, result.error.message);
+      return;
+    }
+
+    const sectionData = {
+      [section]: result.data,
+    } as Partial<DashboardSectionData>;
+    renderedData = { ...renderedData, ...sectionData };
+    renderSectionData(`section-${section}`, sectionData);
+  });
+}
+
+/**
+ * ダッシュボードを表示したことをService Workerに通知
+ */
+function notifyDashboardViewed() {
+  call({ type: 'DASHBOARD_VIEWED' }).catch((error) => {
+    console.error('Failed to notify dashboard viewed:', error);
+  });
+}
+
 /**
  * データ取得エラーを表示
+ * 取得中の場合は、まだデータを受け取っていないセクションにのみ表示する
+ * @param error エラーメッセージ
+ * @param dataFetch 実行中のデータ取得
  */
-function showDataError(error: string) {
-  // 各セクションにエラーを表示
-  renderSectionError('section-repositories', error);
-  renderSectionError('section-issues', error);
-  renderSectionError('section-projects', error);
+function showDataError(error: string, dataFetch?: DataFetch) {
+  DASHBOARD_SECTIONS.filter(
+    (section) => dataFetch?.fetchedAt[section] === undefined
+  ).forEach((section) => {
+    renderSectionError(`section-${section}`, error);
+  });
 }
 
 /**
@@ -333,14 +469,19 @@ function showDataError(error: string) {
  */
 chrome.runtime.onMessage.addListener(
   (
-    message: Message,
+    message: BroadcastMessage,
     _sender: chrome.runtime.MessageSender,
     sendResponse: (response?: unknown) => void
   ) => {
     console.log('Message received in content script:', message.type);
 
     if (message.type === 'SETTINGS_UPDATED') {
-      handleSettingsUpdated(message as SettingsUpdatedMessage);
+      handleSettingsUpdated(message);
+      sendResponse({ success: true });
+    }
+
+    if (message.type === 'SECTION_UPDATED') {
+      handleSectionUpdated(message);
       sendResponse({ success: true });
     }
 
@@ -348,6 +489,17 @@ chrome.runtime.onMessage.addListener(
   }
 );
 
+/**
+ * セクション更新の通知を受け取った時の処理
+ * 他の画面から要求された更新の結果で、読み込み済みのセクションを描画し直す
+ */
+function handleSectionUpdated(message: SectionUpdatedMessage) {
+  if (!isCustomLayoutActive) {
+    return;
+  }
+  renderSections(message.data);
+}
+
 /**
  * 設定更新ハンドラー
  */
@@ -355,6 +507,12 @@ async function handleSettingsUpdated(message: SettingsUpdatedMessage) {
   console.log('Settings updated:', message.settings);
   currentSettings = message.settings;
 
+  // 使用中のホストが変わり、このページが対象外になった場合は元に戻す
+  if (!isGitHubDashboard()) {
+    teardownCustomLayout();
+    return;
+  }
+
   if (!isCustomLayoutActive) {
     console.log('Custom layout disabled; deferring layout rebuild until re-enabled.');
     return;
@@ -373,6 +531,175 @@ async function handleSettingsUpdated(message: SettingsUpdatedMessage) {
   }
 }
 
+/**
+ * 設定画面を開く
+ * Content Scriptからは chrome.runtime.openOptionsPage を呼べないため、Service Workerに依頼する
+ */
+function openOptionsPage() {
+  call({ type: 'OPEN_OPTIONS' }).catch((error) => {
+    console.error('Failed to open options page:', error);
+  });
+}
+
+/**
+ * キャッシュをクリアしてデータを取得し直す
+ */
+async function refreshData() {
+  try {
+    const response = await call({ type: 'REFRESH_DATA' });
+
+    if (!response.success) {
+      console.error('Failed to refresh data:', response.error);
+      return;
+    }
+  } catch (error) {
+    console.error('Error refreshing data:', error);
+    return;
+  }
+
+  cancelDataFetch();
+  await fetchAndRenderData();
+}
+
+/**
+ * コマンドパレットの項目を作成
+ * 操作のあと、表示中のリポジトリ・Organization・Issue・プロジェクトを並べる
+ */
+function buildCommandPaletteItems(): CommandPaletteItem[] {
+  const items: CommandPaletteItem[] = [];
+
+  if (isCustomLayoutActive) {
+    items.push({
+      title: 'データを更新',
+      category: '操作',
+      run: () => {
+        refreshData();
+      },
+    });
+  }
+
+  items.push({
+    title: isCustomLayoutActive
+      ? 'GitHub標準の表示に切り替え'
+      : 'カスタムレイアウトに切り替え',
+    category: '操作',
+    run: () => {
+      if (layoutToggleInputRef) {
+        layoutToggleInputRef.checked = !isCustomLayoutActive;
+      }
+      handleLayoutModeChange(!isCustomLayoutActive);
+    },
+  });
+
+  items.push({
+    title: '設定を開く',
+    category: '操作',
+    run: openOptionsPage,
+  });
+
+  if (!isCustomLayoutActive) {
+    return items;
+  }
+
+  document
+    .querySelectorAll<HTMLElement>(
+      '#github-dashboard-customizer-root .dashboard-section'
+    )
+    .forEach((section) => {
+      const title = section.querySelector('.section-header')?.textContent;
+      items.push({
+        title: `${isSectionCollapsed(section.id) ? '展開' : '折りたたむ'}: ${title}`,
+        category: '操作',
+        run: () => toggleSectionCollapsed(section.id),
+      });
+    });
+
+  if (!renderedData) {
+    return items;
+  }
+
+  const openUrl = (url: string) => () => {
+    window.open(url, '_blank');
+  };
+  const webUrl = getActiveHost(currentSettings || DEFAULT_SETTINGS).webUrl;
+
+  renderedData.repositories?.forEach((group) => {
+    // 個人のリポジトリのグループ（Personal）はOrganizationではない
+    const organization = group.repositories[0]?.owner;
+    if (organization?.type === 'Organization') {
+      items.push({
+        title: organization.login,
+        category: 'Organization',
+        run: openUrl(`${webUrl}/${organization.login}`),
+      });
+    }
+
+    group.repositories.forEach((repo) => {
+      items.push({
+        title: repo.full_name,
+        category: 'リポジトリ',
+        detail: repo.description || undefined,
+        run: openUrl(repo.html_url),
+      });
+    });
+  });
+
+  renderedData.issues?.forEach((issue) => {
+    items.push({
+      title: issue.title,
+      category: 'Issue',
+      detail: `${issue.repository?.full_name || ''}#${issue.number}`,
+      run: openUrl(issue.html_url),
+    });
+  });
+
+  renderedData.projects?.forEach((project) => {
+    items.push({
+      title: project.name,
+      category: 'プロジェクト',
+      detail: project.body || undefined,
+      run: openUrl(project.html_url),
+    });
+  });
+
+  return items;
+}
+
+/**
+ * Ctrl+K（macOSは Cmd+K）でコマンドパレットを開く
+ * ダッシュボードではGitHub標準のコマンドパレットより優先する
+ */
+document.addEventListener(
+  'keydown',
+  (event) => {
+    if (
+      !(event.ctrlKey || event.metaKey) ||
+      event.key.toLowerCase() !== 'k' ||
+      !currentSettings ||
+      !isGitHubDashboard()
+    ) {
+      return;
+    }
+
+    event.preventDefault();
+    event.stopPropagation();
+
+    if (isCommandPaletteOpen()) {
+      closeCommandPalette();
+    } else {
+      openCommandPalette(buildCommandPaletteItems());
+    }
+  },
+  true
+);
+
+/**
+ * ページ離脱時は実行中のデータ取得をキャンセル
+ */
+window.addEventListener('pagehide', () => {
+  cancelDataFetch();
+});
+
 // 初期化実行
 init();
 
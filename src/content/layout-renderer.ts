@@ -1,5 +1,9 @@
 import { Settings } from '../types/settings';
-import { Issue, Project } from '../types/api';
+import { Issue, Project, RateLimitStatus } from '../types/api';
+import {
+  getDaysUntilExpiry,
+  shouldWarnTokenExpiry,
+} from '../utils/token-capabilities';
 import {
   createContainer,
   createSection,
@@ -37,12 +41,21 @@ interface HeaderElements {
   modeLabel: HTMLElement;
   loadingIndicator: HTMLElement;
   loadingText: HTMLElement;
+  rateLimitStatus: HTMLElement;
+  tokenWarning: HTMLElement;
 }
 
+/**
+ * ヘッダーのローディング表示の既定メッセージ
+ */
+const DEFAULT_LOADING_MESSAGE = 'GitHubからデータ取得中…';
+
 let layoutToggleInputRef: HTMLInputElement | null = null;
 let layoutModeLabelRef: HTMLElement | null = null;
 let headerLoadingIndicatorRef: HTMLElement | null = null;
 let headerLoadingTextRef: HTMLElement | null = null;
+let headerRateLimitRef: HTMLElement | null = null;
+let headerTokenWarningRef: HTMLElement | null = null;
 
 /**
  * レイアウトレンダラー
@@ -127,6 +140,32 @@ function ensureGlobalStyles(): void {
       display: inline-flex;
     }
 
+    .gdc-rate-limit-status {
+      font-size: 12px;
+      color: #57606a;
+    }
+
+    .gdc-rate-limit-status:empty {
+      display: none;
+    }
+
+    .gdc-rate-limit-status.is-warning {
+      color: #9a6700;
+    }
+
+    .gdc-token-warning {
+      font-size: 12px;
+      color: #9a6700;
+    }
+
+    .gdc-token-warning:empty {
+      display: none;
+    }
+
+    .gdc-token-warning.is-expired {
+      color: #cf222e;
+    }
+
     .gdc-toggle-wrapper {
       display: flex;
       flex-direction: column;
@@ -267,11 +306,15 @@ export function applyLayout(
     modeLabel,
     loadingIndicator,
     loadingText,
+    rateLimitStatus,
+    tokenWarning,
   } = createHeader();
   layoutToggleInputRef = toggleInput;
   layoutModeLabelRef = modeLabel;
   headerLoadingIndicatorRef = loadingIndicator;
   headerLoadingTextRef = loadingText;
+  headerRateLimitRef = rateLimitStatus;
+  headerTokenWarningRef = tokenWarning;
 
   const isCustomMode = options.isCustomMode ?? true;
   toggleInput.checked = isCustomMode;
@@ -469,11 +512,22 @@ function createHeader(): HeaderElements {
   const loadingSpinner = createSpinnerIcon(16);
   const loadingText = createElement('span', {
     className: 'gdc-loading-text',
-    textContent: 'GitHubからデータ取得中…',
+    textContent: DEFAULT_LOADING_MESSAGE,
   });
   loadingIndicator.appendChild(loadingSpinner);
   loadingIndicator.appendChild(loadingText);
 
+  const rateLimitStatus = createElement('span', {
+    className: 'gdc-rate-limit-status',
+  });
+
+  const tokenWarning = createElement('span', {
+    className: 'gdc-token-warning',
+    attributes: {
+      role: 'status',
+    },
+  });
+
   const toggleWrapper = createElement('div', {
     className: 'gdc-toggle-wrapper',
   });
@@ -531,6 +585,8 @@ function createHeader(): HeaderElements {
   toggleWrapper.appendChild(modeLabel);
 
   controls.appendChild(loadingIndicator);
+  controls.appendChild(rateLimitStatus);
+  controls.appendChild(tokenWarning);
   controls.appendChild(toggleWrapper);
 
   mainRow.appendChild(titleBlock);
@@ -543,6 +599,8 @@ function createHeader(): HeaderElements {
     modeLabel,
     loadingIndicator,
     loadingText,
+    rateLimitStatus,
+    tokenWarning,
   };
 }
 
@@ -624,7 +682,7 @@ export function updateLayoutModeLabel(isCustomMode: boolean): void {
 /**
  * ヘッダーのローディング状態を更新
  * @param isLoading ローディング中かどうか
- * @param message 任意のメッセージ
+ * @param message 任意のメッセージ（省略時は既定のメッセージ）
  */
 export function setHeaderLoadingState(
   isLoading: boolean,
@@ -634,9 +692,7 @@ export function setHeaderLoadingState(
     return;
   }
 
-  if (message) {
-    headerLoadingTextRef.textContent = message;
-  }
+  headerLoadingTextRef.textContent = message || DEFAULT_LOADING_MESSAGE;
 
   if (isLoading) {
     headerLoadingIndicatorRef.classList.add('is-active');
@@ -645,6 +701,73 @@ export function setHeaderLoadingState(
   }
 }
 
+/**
+ * ヘッダーのレートリミット表示を更新
+ * @param status レートリミットの状況（nullの場合は非表示）
+ */
+export function updateRateLimitStatus(status: RateLimitStatus | null): void {
+  if (!headerRateLimitRef) {
+    return;
+  }
+
+  headerRateLimitRef.classList.remove('is-warning');
+
+  if (!status) {
+    headerRateLimitRef.textContent = '';
+    return;
+  }
+
+  const formatTime = (time: number) =>
+    new Date(time).toLocaleTimeString([], {
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+
+  if (status.blockedUntil) {
+    headerRateLimitRef.classList.add('is-warning');
+    headerRateLimitRef.textContent = `APIレート制限中（${formatTime(status.blockedUntil)}に再開）`;
+    return;
+  }
+
+  const remaining = `API残量 ${status.remaining}/${status.limit}`;
+
+  if (status.quotaOkUntil === null) {
+    headerRateLimitRef.textContent = remaining;
+    return;
+  }
+
+  headerRateLimitRef.classList.add('is-warning');
+  headerRateLimitRef.textContent = `${remaining}（${formatTime(status.quotaOkUntil)}頃まで問題なし）`;
+}
+
+/**
+ * ヘッダーのトークン有効期限の警告を更新
+ * 有効期限の数日前から表示する
+ * @param expiresAt トークンの有効期限（期限なしの場合null）
+ */
+export function updateTokenExpiryWarning(expiresAt: number | null): void {
+  if (!headerTokenWarningRef) {
+    return;
+  }
+
+  headerTokenWarningRef.classList.remove('is-expired');
+
+  if (expiresAt === null || !shouldWarnTokenExpiry(expiresAt)) {
+    headerTokenWarningRef.textContent = '';
+    return;
+  }
+
+  const days = getDaysUntilExpiry(expiresAt);
+  if (days <= 0) {
+    headerTokenWarningRef.classList.add('is-expired');
+    headerTokenWarningRef.textContent =
+      'トークンの有効期限が切れています。設定画面で更新してください';
+    return;
+  }
+
+  headerTokenWarningRef.textContent = `トークンの有効期限まであと${days}日です`;
+}
+
 /**
  * セクションにエラーを表示
  * @param sectionId セクションID
@@ -679,3 +802,32 @@ export function renderSectionError(sectionId: string, error: string): void {
   }
 }
 
+/**
+ * セクションが折りたたまれているか確認
+ * @param sectionId セクションID
+ * @returns 折りたたまれている場合true
+ */
+export function isSectionCollapsed(sectionId: string): boolean {
+  const section = document.getElementById(sectionId);
+  return section?.classList.contains('is-collapsed') ?? false;
+}
+
+/**
+ * セクションの折りたたみを切り替え
+ * 見出しは残し、内容のみ非表示にする
+ * @param sectionId セクションID
+ */
+export function toggleSectionCollapsed(sectionId: string): void {
+  const section = document.getElementById(sectionId);
+  if (!section) {
+    return;
+  }
+
+  const content = section.querySelector<HTMLElement>('.section-content');
+  if (!content) {
+    return;
+  }
+
+  const collapsed = section.classList.toggle('is-collapsed');
+  content.style.display = collapsed ? 'none' : 'flex';
+}
@@ -1,5 +1,41 @@
-import { Message } from '../types/messages';
-import { Settings } from '../types/settings';
+import { CacheDiagnostics } from '../types/messages';
+import {
+  AuthStatus,
+  DeviceCodeInfo,
+  SecretStorageMode,
+  SectionCapability,
+  TokenInfo,
+} from '../types/auth';
+import {
+  Settings,
+  SettingsExport,
+  HostProfile,
+  CacheDataType,
+  CacheSettings,
+  PrefetchSettings,
+  BadgeSettings,
+  NotificationSettings,
+  GITHUB_COM_HOST,
+} from '../types/settings';
+import { call } from '../utils/rpc';
+import {
+  getActiveHost,
+  getOriginPatterns,
+  isBuiltInHost,
+  normalizeUrl,
+} from '../utils/hosts';
+import {
+  validateHostProfile,
+  validateCacheSettings,
+  validatePrefetchSettings,
+  validateBadgeSettings,
+  validateNotificationSettings,
+} from '../utils/validation';
+import { getCacheSettings } from '../utils/cache-policy';
+import {
+  getDaysUntilExpiry,
+  shouldWarnTokenExpiry,
+} from '../utils/token-capabilities';
 
 /**
  * Options Page Script
@@ -9,225 +45,1581 @@ import { Settings } from '../types/settings';
 console.log('Options page loaded');
 
 let currentSettings: Settings | null = null;
+let currentAuthStatus: AuthStatus | null = null;
+let deviceFlowTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * キャッシュ設定の入力欄があるデータタイプ
+ */
+const CACHE_DATA_TYPES: CacheDataType[] = [
+  'repositories',
+  'issues',
+  'projects',
+];
 
 /**
  * 初期化処理
  */
-async function init() {
-  console.log('Initializing options page...');
+async function init() {
+  console.log('Initializing options page...');
+
+  // 設定を読み込む
+  await loadSettings();
+  await loadAuthStatus();
+
+  // イベントリスナーを設定
+  setupEventListeners();
+
+  // UIを更新
+  updateUI();
+
+  // トークンの権限を表示
+  await loadTokenInfo();
+
+  // キャッシュの状態を表示
+  await loadCacheDiagnostics();
+}
+
+/**
+ * 設定を読み込む
+ */
+async function loadSettings() {
+  try {
+    const response = await call({ type: 'GET_SETTINGS' });
+
+    if (response.success) {
+      currentSettings = response.data;
+      console.log('Settings loaded:', currentSettings);
+    } else {
+      console.error('Failed to load settings:', response.error);
+      showStatus('token-status', 'error', '設定の読み込みに失敗しました');
+    }
+  } catch (error) {
+    console.error('Error loading settings:', error);
+    showStatus('token-status', 'error', '設定の読み込みに失敗しました');
+  }
+}
+
+/**
+ * UIを更新
+ */
+function updateUI() {
+  if (!currentSettings) {
+    return;
+  }
+
+  // 接続先ホスト
+  updateHostUI(currentSettings);
+
+  // トークン保存方法（保存済みのトークンは入力欄に表示しない）
+  updateSecretStoreUI();
+
+  // OAuth設定
+  const clientIdInput = document.getElementById(
+    'oauth-client-id'
+  ) as HTMLInputElement;
+  if (clientIdInput) {
+    clientIdInput.value = currentSettings.oauth?.clientId || '';
+  }
+  const oauthBaseUrlInput = document.getElementById(
+    'oauth-base-url'
+  ) as HTMLInputElement;
+  if (oauthBaseUrlInput) {
+    oauthBaseUrlInput.value = currentSettings.oauth?.baseUrl || '';
+  }
+
+  // キャッシュ設定
+  updateCacheSettingsUI(currentSettings);
+
+  // バックグラウンド更新設定
+  updatePrefetchSettingsUI(currentSettings);
+
+  // バッジ設定
+  updateBadgeSettingsUI(currentSettings);
+
+  // 通知設定
+  updateNotificationSettingsUI(currentSettings);
+
+  // レイアウト設定チェックボックス
+  currentSettings.layout.forEach((item) => {
+    const checkbox = document.getElementById(
+      `layout-${item.id}`
+    ) as HTMLInputElement;
+    if (checkbox) {
+      checkbox.checked = item.enabled;
+    }
+  });
+}
+
+/**
+ * 認証状態を読み込む
+ */
+async function loadAuthStatus() {
+  try {
+    const response = await call({ type: 'GET_AUTH_STATUS' });
+
+    if (response.success) {
+      currentAuthStatus = response.data;
+    } else {
+      console.error('Failed to load auth status:', response.error);
+    }
+  } catch (error) {
+    console.error('Error loading auth status:', error);
+  }
+}
+
+/**
+ * トークンの保存方法とロック状態のUIを更新
+ */
+function updateSecretStoreUI() {
+  if (!currentAuthStatus) {
+    return;
+  }
+
+  const tokenInput = document.getElementById('token') as HTMLInputElement;
+  if (tokenInput) {
+    tokenInput.placeholder = currentAuthStatus.hasToken
+      ? '保存済み（変更する場合のみ入力）'
+      : 'ghp_xxxxxxxxxxxxxxxxxxxx';
+  }
+
+  const modeSelect = document.getElementById(
+    'secret-mode'
+  ) as HTMLSelectElement;
+  if (modeSelect) {
+    modeSelect.value = currentAuthStatus.mode;
+  }
+  updatePassphraseVisibility();
+
+  const lockBtn = document.getElementById('lock-token');
+  if (lockBtn) {
+    lockBtn.hidden =
+      currentAuthStatus.mode !== 'encrypted' || currentAuthStatus.locked;
+  }
+
+  const unlockGroup = document.getElementById('unlock-token-group');
+  if (unlockGroup) {
+    unlockGroup.hidden = !currentAuthStatus.locked;
+  }
+}
+
+/**
+ * 暗号化を選択した場合のみパスフレーズ入力欄を表示
+ */
+function updatePassphraseVisibility() {
+  const modeSelect = document.getElementById(
+    'secret-mode'
+  ) as HTMLSelectElement;
+  const passphraseGroup = document.getElementById('secret-passphrase-group');
+  if (modeSelect && passphraseGroup) {
+    passphraseGroup.hidden = modeSelect.value !== 'encrypted';
+  }
+}
+
+/**
+ * イベントリスナーを設定
+ */
+function setupEventListeners() {
+  // トークンの表示/非表示切り替え
+  const toggleTokenBtn = document.getElementById('toggle-token-visibility');
+  const tokenInput = document.getElementById('token') as HTMLInputElement;
+  if (toggleTokenBtn && tokenInput) {
+    toggleTokenBtn.addEventListener('click', () => {
+      if (tokenInput.type === 'password') {
+        tokenInput.type = 'text';
+        toggleTokenBtn.textContent = '非表示';
+      } else {
+        tokenInput.type = 'password';
+        toggleTokenBtn.textContent = '表示';
+      }
+    });
+  }
+
+  // 接続先ホスト
+  const hostSelect = document.getElementById('host-select');
+  if (hostSelect) {
+    hostSelect.addEventListener('change', handleHostChange);
+  }
+  const addHostBtn = document.getElementById('add-host');
+  if (addHostBtn) {
+    addHostBtn.addEventListener('click', handleAddHost);
+  }
+  const removeHostBtn = document.getElementById('remove-host');
+  if (removeHostBtn) {
+    removeHostBtn.addEventListener('click', handleRemoveHost);
+  }
+
+  // トークン保存ボタン
+  const saveTokenBtn = document.getElementById('save-token');
+  if (saveTokenBtn) {
+    saveTokenBtn.addEventListener('click', handleSaveToken);
+  }
+
+  // トークン検証ボタン
+  const validateTokenBtn = document.getElementById('validate-token');
+  if (validateTokenBtn) {
+    validateTokenBtn.addEventListener('click', handleValidateToken);
+  }
+
+  // トークンの保存方法
+  const secretModeSelect = document.getElementById('secret-mode');
+  if (secretModeSelect) {
+    secretModeSelect.addEventListener('change', updatePassphraseVisibility);
+  }
+  const applySecretModeBtn = document.getElementById('apply-secret-mode');
+  if (applySecretModeBtn) {
+    applySecretModeBtn.addEventListener('click', handleSecretModeChange);
+  }
+  const lockTokenBtn = document.getElementById('lock-token');
+  if (lockTokenBtn) {
+    lockTokenBtn.addEventListener('click', handleLockToken);
+  }
+  const unlockTokenBtn = document.getElementById('unlock-token');
+  if (unlockTokenBtn) {
+    unlockTokenBtn.addEventListener('click', handleUnlockToken);
+  }
+
+  // GitHubでサインイン（デバイスフロー）
+  const startDeviceFlowBtn = document.getElementById('start-device-flow');
+  if (startDeviceFlowBtn) {
+    startDeviceFlowBtn.addEventListener('click', handleStartDeviceFlow);
+  }
+  const cancelDeviceFlowBtn = document.getElementById('cancel-device-flow');
+  if (cancelDeviceFlowBtn) {
+    cancelDeviceFlowBtn.addEventListener('click', () => {
+      stopDeviceFlow();
+      showStatus('device-flow-status', 'info', 'サインインを中止しました');
+    });
+  }
+
+  // レイアウト設定チェックボックス
+  const layoutCheckboxes = document.querySelectorAll(
+    '.layout-item input[type="checkbox"]'
+  );
+  layoutCheckboxes.forEach((checkbox) => {
+    checkbox.addEventListener('change', handleLayoutChange);
+  });
+
+  // キャッシュ設定保存ボタン
+  const saveCacheSettingsBtn = document.getElementById('save-cache-settings');
+  if (saveCacheSettingsBtn) {
+    saveCacheSettingsBtn.addEventListener('click', handleSaveCacheSettings);
+  }
+
+  // バックグラウンド更新設定保存ボタン
+  const savePrefetchSettingsBtn = document.getElementById(
+    'save-prefetch-settings'
+  );
+  if (savePrefetchSettingsBtn) {
+    savePrefetchSettingsBtn.addEventListener(
+      'click',
+      handleSavePrefetchSettings
+    );
+  }
+
+  // バッジ設定保存ボタン
+  const saveBadgeSettingsBtn = document.getElementById('save-badge-settings');
+  if (saveBadgeSettingsBtn) {
+    saveBadgeSettingsBtn.addEventListener('click', handleSaveBadgeSettings);
+  }
+
+  // 通知設定保存ボタン
+  const saveNotificationSettingsBtn = document.getElementById(
+    'save-notification-settings'
+  );
+  if (saveNotificationSettingsBtn) {
+    saveNotificationSettingsBtn.addEventListener(
+      'click',
+      handleSaveNotificationSettings
+    );
+  }
+
+  // キャッシュの状態
+  const refreshDiagnosticsBtn = document.getElementById(
+    'refresh-cache-diagnostics'
+  );
+  if (refreshDiagnosticsBtn) {
+    refreshDiagnosticsBtn.addEventListener('click', loadCacheDiagnostics);
+  }
+  const clearCacheBtn = document.getElementById('clear-cache');
+  if (clearCacheBtn) {
+    clearCacheBtn.addEventListener('click', handleClearCache);
+  }
+
+  // Export/Importボタン
+  const exportBtn = document.getElementById('export-settings');
+  const importBtn = document.getElementById('import-settings');
+  if (exportBtn) {
+    exportBtn.addEventListener('click', handleExport);
+  }
+  if (importBtn) {
+    importBtn.addEventListener('click', handleImport);
+  }
+
+  // ファイル選択input
+  const fileInput = document.getElementById('import-file') as HTMLInputElement;
+  if (fileInput) {
+    fileInput.addEventListener('change', handleFileSelect);
+  }
+}
+
+/**
+ * 接続先ホストのUIを更新
+ */
+function updateHostUI(settings: Settings) {
+  const hostSelect = document.getElementById(
+    'host-select'
+  ) as HTMLSelectElement;
+  const activeHost = getActiveHost(settings);
+
+  if (hostSelect) {
+    hostSelect.innerHTML = '';
+    settings.hosts.forEach((host) => {
+      const option = document.createElement('option');
+      option.value = host.id;
+      option.textContent = `${host.name} (${host.webUrl})`;
+      hostSelect.appendChild(option);
+    });
+    hostSelect.value = activeHost.id;
+  }
+
+  // トークン作成リンクを使用中のホストに合わせる
+  const tokenHelpLink = document.getElementById(
+    'token-help-link'
+  ) as HTMLAnchorElement;
+  if (tokenHelpLink) {
+    tokenHelpLink.href = `${normalizeUrl(activeHost.webUrl)}/settings/tokens`;
+  }
+}
+
+/**
+ * ホストへのアクセス許可を要求
+ * @returns 許可された場合true
+ */
+async function requestHostPermission(host: HostProfile): Promise<boolean> {
+  if (isBuiltInHost(host)) {
+    return true;
+  }
+
+  try {
+    return await chrome.permissions.request({
+      origins: getOriginPatterns(host),
+    });
+  } catch (error) {
+    console.error('Failed to request host permission:', error);
+    return false;
+  }
+}
+
+/**
+ * 現在の設定をBackgroundに保存
+ * @returns 保存に成功した場合true
+ */
+async function persistSettings(): Promise<boolean> {
+  if (!currentSettings) {
+    return false;
+  }
+
+  try {
+    const response = await call({
+      type: 'SAVE_SETTINGS',
+      settings: currentSettings,
+    });
+
+    if (!response.success) {
+      console.error('Failed to save settings:', response.error);
+    }
+    return response.success;
+  } catch (error) {
+    console.error('Error saving settings:', error);
+    return false;
+  }
+}
+
+/**
+ * 使用するホスト変更ハンドラー
+ */
+async function handleHostChange(event: Event) {
+  const select = event.target as HTMLSelectElement;
+
+  if (!currentSettings) {
+    return;
+  }
+
+  const host = currentSettings.hosts.find((item) => item.id === select.value);
+  if (!host) {
+    return;
+  }
+
+  const granted = await requestHostPermission(host);
+  if (!granted) {
+    select.value = getActiveHost(currentSettings).id;
+    showStatus(
+      'host-status',
+      'error',
+      'ホストへのアクセスが許可されませんでした'
+    );
+    return;
+  }
+
+  currentSettings.activeHostId = host.id;
+
+  if (await persistSettings()) {
+    updateHostUI(currentSettings);
+    showStatus(
+      'host-status',
+      'success',
+      `${host.name} を使用します。トークンはこのホストで発行したものを設定してください`
+    );
+  } else {
+    showStatus('host-status', 'error', '保存に失敗しました');
+  }
+}
+
+/**
+ * ホスト追加ハンドラー
+ */
+async function handleAddHost() {
+  if (!currentSettings) {
+    return;
+  }
+
+  const nameInput = document.getElementById('host-name') as HTMLInputElement;
+  const webUrlInput = document.getElementById(
+    'host-web-url'
+  ) as HTMLInputElement;
+  const apiUrlInput = document.getElementById(
+    'host-api-url'
+  ) as HTMLInputElement;
+  if (!nameInput || !webUrlInput || !apiUrlInput) {
+    return;
+  }
+
+  const webUrl = normalizeUrl(webUrlInput.value);
+  // API URLが未入力の場合はGHESの標準パスを使用
+  const apiUrl = normalizeUrl(apiUrlInput.value) || `${webUrl}/api/v3`;
+
+  const host: HostProfile = {
+    id: `host-${Date.now()}`,
+    name: nameInput.value.trim() || webUrl,
+    webUrl,
+    apiUrl,
+  };
+
+  const validation = validateHostProfile(host);
+  if (!validation.valid) {
+    showStatus('host-status', 'error', validation.errors.join(', '));
+    return;
+  }
+
+  if (currentSettings.hosts.some((item) => item.webUrl === host.webUrl)) {
+    showStatus('host-status', 'error', 'このホストは既に登録されています');
+    return;
+  }
+
+  const granted = await requestHostPermission(host);
+  if (!granted) {
+    showStatus(
+      'host-status',
+      'error',
+      'ホストへのアクセスが許可されませんでした'
+    );
+    return;
+  }
+
+  currentSettings.hosts = [...currentSettings.hosts, host];
+  currentSettings.activeHostId = host.id;
+
+  if (await persistSettings()) {
+    nameInput.value = '';
+    webUrlInput.value = '';
+    apiUrlInput.value = '';
+    updateHostUI(currentSettings);
+    showStatus('host-status', 'success', `${host.name} を追加しました`);
+  } else {
+    showStatus('host-status', 'error', '保存に失敗しました');
+  }
+}
+
+/**
+ * ホスト削除ハンドラー
+ */
+async function handleRemoveHost() {
+  const hostSelect = document.getElementById(
+    'host-select'
+  ) as HTMLSelectElement;
+  if (!currentSettings || !hostSelect) {
+    return;
+  }
+
+  const host = currentSettings.hosts.find(
+    (item) => item.id === hostSelect.value
+  );
+  if (!host) {
+    return;
+  }
+
+  if (isBuiltInHost(host)) {
+    showStatus('host-status', 'error', 'GitHub.com は削除できません');
+    return;
+  }
+
+  currentSettings.hosts = currentSettings.hosts.filter(
+    (item) => item.id !== host.id
+  );
+  if (currentSettings.activeHostId === host.id) {
+    currentSettings.activeHostId = GITHUB_COM_HOST.id;
+  }
+
+  if (await persistSettings()) {
+    // 不要になったアクセス許可を取り消す
+    chrome.permissions
+      .remove({ origins: getOriginPatterns(host) })
+      .catch((error) => {
+        console.error('Failed to remove host permission:', error);
+      });
+    updateHostUI(currentSettings);
+    showStatus('host-status', 'success', `${host.name} を削除しました`);
+  } else {
+    showStatus('host-status', 'error', '保存に失敗しました');
+  }
+}
+
+/**
+ * トークン保存ハンドラー
+ */
+async function handleSaveToken() {
+  const tokenInput = document.getElementById('token') as HTMLInputElement;
+  if (!tokenInput) {
+    return;
+  }
+
+  const token = tokenInput.value.trim();
+  if (!token) {
+    showStatus('token-status', 'error', 'トークンを入力してください');
+    return;
+  }
+
+  try {
+    showStatus('token-status', 'info', '保存中...');
+
+    const response = await call({
+      type: 'SAVE_TOKEN',
+      token,
+    });
+
+    if (response.success) {
+      showStatus('token-status', 'success', 'トークンを保存しました');
+      tokenInput.value = '';
+      await loadAuthStatus();
+      updateSecretStoreUI();
+      await loadTokenInfo();
+    } else {
+      showStatus(
+        'token-status',
+        'error',
+        `保存に失敗しました: ${response.error}`
+      );
+    }
+  } catch (error) {
+    console.error('Error saving token:', error);
+    showStatus('token-status', 'error', '保存に失敗しました');
+  }
+}
+
+/**
+ * トークン検証ハンドラー（Phase 3で実装）
+ */
+async function handleValidateToken() {
+  try {
+    showStatus('token-status', 'info', '検証中...');
+
+    const response = await call({ type: 'VALIDATE_TOKEN' });
+
+    if (!response.success) {
+      showStatus('token-status', 'error', response.error);
+    } else if (response.data.valid) {
+      showStatus('token-status', 'success', 'トークンは有効です');
+      renderTokenCapabilities(
+        response.data.tokenInfo || null,
+        response.data.capabilities || []
+      );
+    } else {
+      showStatus(
+        'token-status',
+        'error',
+        response.data.message || 'トークンが無効です'
+      );
+    }
+  } catch (error) {
+    console.error('Error validating token:', error);
+    showStatus('token-status', 'error', '検証に失敗しました');
+  }
+}
+
+/**
+ * トークンの保存方法変更ハンドラー
+ */
+async function handleSecretModeChange() {
+  const modeSelect = document.getElementById(
+    'secret-mode'
+  ) as HTMLSelectElement;
+  const passphraseInput = document.getElementById(
+    'secret-passphrase'
+  ) as HTMLInputElement;
+  if (!modeSelect || !passphraseInput) {
+    return;
+  }
+
+  const mode = modeSelect.value as SecretStorageMode;
+
+  try {
+    showStatus('secret-status', 'info', '変更中...');
+
+    const response = await call({
+      type: 'SET_SECRET_STORAGE',
+      mode,
+      passphrase: mode === 'encrypted' ? passphraseInput.value : undefined,
+    });
+
+    if (response.success) {
+      passphraseInput.value = '';
+      currentAuthStatus = response.data;
+      updateSecretStoreUI();
+      showStatus('secret-status', 'success', '保存方法を変更しました');
+    } else {
+      showStatus(
+        'secret-status',
+        'error',
+        `変更に失敗しました: ${response.error}`
+      );
+    }
+  } catch (error) {
+    console.error('Error changing secret storage:', error);
+    showStatus('secret-status', 'error', '変更に失敗しました');
+  }
+}
+
+/**
+ * トークンのロック解除ハンドラー
+ */
+async function handleUnlockToken() {
+  const passphraseInput = document.getElementById(
+    'unlock-passphrase'
+  ) as HTMLInputElement;
+  if (!passphraseInput) {
+    return;
+  }
+
+  try {
+    const response = await call({
+      type: 'UNLOCK_TOKEN',
+      passphrase: passphraseInput.value,
+    });
+
+    if (response.success) {
+      passphraseInput.value = '';
+      currentAuthStatus = response.data;
+      updateSecretStoreUI();
+      showStatus('secret-status', 'success', 'ロックを解除しました');
+      await loadTokenInfo();
+    } else {
+      showStatus('secret-status', 'error', response.error);
+    }
+  } catch (error) {
+    console.error('Error unlocking token:', error);
+    showStatus('secret-status', 'error', 'ロック解除に失敗しました');
+  }
+}
+
+/**
+ * トークンのロックハンドラー
+ */
+async function handleLockToken() {
+  try {
+    const response = await call({ type: 'LOCK_TOKEN' });
+
+    if (response.success) {
+      currentAuthStatus = response.data;
+      updateSecretStoreUI();
+      renderTokenCapabilities(null, []);
+      showStatus('secret-status', 'success', 'ロックしました');
+    } else {
+      showStatus('secret-status', 'error', response.error);
+    }
+  } catch (error) {
+    console.error('Error locking token:', error);
+    showStatus('secret-status', 'error', 'ロックに失敗しました');
+  }
+}
+
+/**
+ * トークンの権限・有効期限を読み込んで表示
+ */
+async function loadTokenInfo() {
+  try {
+    const response = await call({ type: 'GET_TOKEN_INFO' });
+
+    if (response.success && response.data) {
+      renderTokenCapabilities(
+        response.data.tokenInfo,
+        response.data.capabilities
+      );
+    } else {
+      renderTokenCapabilities(null, []);
+    }
+  } catch (error) {
+    console.error('Error loading token info:', error);
+    renderTokenCapabilities(null, []);
+  }
+}
+
+/**
+ * セクションごとの利用可否と有効期限を表示
+ * @param tokenInfo トークン情報（未取得の場合null）
+ * @param capabilities セクションごとの利用可否
+ */
+function renderTokenCapabilities(
+  tokenInfo: TokenInfo | null,
+  capabilities: SectionCapability[]
+) {
+  const container = document.getElementById('token-capabilities');
+  const expiry = document.getElementById('token-expiry');
+  const list = document.getElementById('token-capability-list');
+  if (!container || !expiry || !list) {
+    return;
+  }
+
+  if (!tokenInfo) {
+    container.hidden = true;
+    return;
+  }
+
+  // 有効期限
+  expiry.classList.remove('token-expiry-warning');
+  if (tokenInfo.expiresAt === null) {
+    expiry.textContent = `${tokenInfo.login} のトークン（有効期限なし）`;
+  } else {
+    const days = getDaysUntilExpiry(tokenInfo.expiresAt);
+    const date = new Date(tokenInfo.expiresAt).toLocaleString();
+    expiry.textContent =
+      days > 0
+        ? `${tokenInfo.login} のトークン（有効期限: ${date}、あと${days}日）`
+        : `${tokenInfo.login} のトークンは有効期限が切れています（${date}）`;
+    if (shouldWarnTokenExpiry(tokenInfo.expiresAt)) {
+      expiry.classList.add('token-expiry-warning');
+    }
+  }
+
+  // セクションごとの利用可否
+  list.innerHTML = '';
+  capabilities.forEach((capability) => {
+    const item = document.createElement('li');
+
+    const name = document.createElement('span');
+    const label = document.querySelector(
+      `label[for="layout-${capability.sectionId}"]`
+    );
+    name.textContent = label?.textContent || capability.sectionId;
+
+    const status = document.createElement('span');
+    status.className = `capability-status ${capability.status}`;
+    switch (capability.status) {
+      case 'available':
+        status.textContent = '利用可能';
+        break;
+      case 'limited':
+        status.textContent = `一部のみ（${capability.missingScopes.join(', ')} が必要）`;
+        break;
+      case 'unknown':
+        status.textContent = '判定できません（fine-grained token）';
+        break;
+    }
+
+    item.appendChild(name);
+    item.appendChild(status);
+    list.appendChild(item);
+  });
+
+  container.hidden = false;
+}
+
+/**
+ * GitHubでサインイン（デバイスフロー開始）ハンドラー
+ */
+async function handleStartDeviceFlow() {
+  if (!currentSettings) {
+    return;
+  }
+
+  const clientIdInput = document.getElementById(
+    'oauth-client-id'
+  ) as HTMLInputElement;
+  const baseUrlInput = document.getElementById(
+    'oauth-base-url'
+  ) as HTMLInputElement;
+  if (!clientIdInput || !baseUrlInput) {
+    return;
+  }
+
+  const clientId = clientIdInput.value.trim();
+  const baseUrl = normalizeUrl(baseUrlInput.value);
+  if (!clientId) {
+    showStatus('device-flow-status', 'error', 'Client IDを入力してください');
+    return;
+  }
+
+  // 接続先ホスト以外のOAuthサーバー（ローカルの検証用サーバーなど）へのアクセス許可
+  if (baseUrl) {
+    let origin: string;
+    try {
+      origin = new URL(baseUrl).origin;
+    } catch {
+      showStatus(
+        'device-flow-status',
+        'error',
+        'OAuthサーバーが正しいURLではありません'
+      );
+      return;
+    }
+
+    const granted = await chrome.permissions
+      .request({ origins: [`${origin}/*`] })
+      .catch(() => false);
+    if (!granted) {
+      showStatus(
+        'device-flow-status',
+        'error',
+        'OAuthサーバーへのアクセスが許可されませんでした'
+      );
+      return;
+    }
+  }
+
+  currentSettings.oauth = { clientId, baseUrl };
+  if (!(await persistSettings())) {
+    showStatus('device-flow-status', 'error', '保存に失敗しました');
+    return;
+  }
+
+  stopDeviceFlow();
+
+  try {
+    const response = await call({ type: 'START_DEVICE_FLOW' });
+
+    if (!response.success) {
+      showStatus(
+        'device-flow-status',
+        'error',
+        `サインインを開始できませんでした: ${response.error}`
+      );
+      return;
+    }
+
+    const info = response.data;
+    showDeviceCode(info);
+    scheduleDeviceFlowPoll(info, info.interval);
+  } catch (error) {
+    console.error('Error starting device flow:', error);
+    showStatus(
+      'device-flow-status',
+      'error',
+      'サインインを開始できませんでした'
+    );
+  }
+}
+
+/**
+ * ユーザーコードと入力先のページを表示
+ */
+function showDeviceCode(info: DeviceCodeInfo) {
+  const codeBox = document.getElementById('device-flow-code');
+  const userCode = document.getElementById('device-user-code');
+  const link = document.getElementById(
+    'device-verification-link'
+  ) as HTMLAnchorElement;
+  const startBtn = document.getElementById(
+    'start-device-flow'
+  ) as HTMLButtonElement;
+  const cancelBtn = document.getElementById('cancel-device-flow');
+
+  if (userCode) {
+    userCode.textContent = info.userCode;
+  }
+  if (link) {
+    link.href = info.verificationUri;
+    link.textContent = info.verificationUri;
+  }
+  if (codeBox) {
+    codeBox.hidden = false;
+  }
+  if (startBtn) {
+    startBtn.disabled = true;
+  }
+  if (cancelBtn) {
+    cancelBtn.hidden = false;
+  }
+}
+
+/**
+ * 次のポーリングを予約
+ * @param info デバイスフローの開始結果
+ * @param interval ポーリング間隔（秒）
+ */
+function scheduleDeviceFlowPoll(info: DeviceCodeInfo, interval: number) {
+  deviceFlowTimer = setTimeout(() => {
+    pollDeviceFlow(info, interval);
+  }, interval * 1000);
+}
+
+/**
+ * ユーザーの承認状況を問い合わせる
+ */
+async function pollDeviceFlow(info: DeviceCodeInfo, interval: number) {
+  if (Date.now() >= info.expiresAt) {
+    stopDeviceFlow();
+    showStatus(
+      'device-flow-status',
+      'error',
+      'コードの有効期限が切れました。もう一度サインインしてください'
+    );
+    return;
+  }
+
+  try {
+    const response = await call({
+      type: 'POLL_DEVICE_FLOW',
+      deviceCode: info.deviceCode,
+      interval,
+    });
+
+    // 問い合わせ中にキャンセルされた場合
+    if (!deviceFlowTimer) {
+      return;
+    }
+
+    if (!response.success) {
+      stopDeviceFlow();
+      showStatus(
+        'device-flow-status',
+        'error',
+        `サインインに失敗しました: ${response.error}`
+      );
+      return;
+    }
+
+    const result = response.data;
+    switch (result.status) {
+      case 'pending':
+        scheduleDeviceFlowPoll(info, interval);
+        break;
+
+      case 'slow_down':
+        scheduleDeviceFlowPoll(info, result.interval || interval);
+        break;
+
+      case 'complete':
+        stopDeviceFlow();
+        showStatus('device-flow-status', 'success', 'サインインしました');
+        await loadSettings();
+        await loadAuthStatus();
+        updateUI();
+        await loadTokenInfo();
+        break;
+
+      case 'expired':
+        stopDeviceFlow();
+        showStatus(
+          'device-flow-status',
+          'error',
+          'コードの有効期限が切れました。もう一度サインインしてください'
+        );
+        break;
+
+      case 'denied':
+        stopDeviceFlow();
+        showStatus('device-flow-status', 'error', 'サインインが拒否されました');
+        break;
+    }
+  } catch (error) {
+    console.error('Error polling device flow:', error);
+    stopDeviceFlow();
+    showStatus('device-flow-status', 'error', 'サインインに失敗しました');
+  }
+}
+
+/**
+ * デバイスフローを終了してUIを戻す
+ */
+function stopDeviceFlow() {
+  if (deviceFlowTimer) {
+    clearTimeout(deviceFlowTimer);
+    deviceFlowTimer = null;
+  }
+
+  const codeBox = document.getElementById('device-flow-code');
+  const startBtn = document.getElementById(
+    'start-device-flow'
+  ) as HTMLButtonElement;
+  const cancelBtn = document.getElementById('cancel-device-flow');
+
+  if (codeBox) {
+    codeBox.hidden = true;
+  }
+  if (startBtn) {
+    startBtn.disabled = false;
+  }
+  if (cancelBtn) {
+    cancelBtn.hidden = true;
+  }
+}
+
+/**
+ * レイアウト変更ハンドラー
+ */
+async function handleLayoutChange(event: Event) {
+  const checkbox = event.target as HTMLInputElement;
+  const layoutId = checkbox.id.replace('layout-', '');
+  const enabled = checkbox.checked;
+
+  if (!currentSettings) {
+    return;
+  }
+
+  // 設定を更新
+  const layoutItem = currentSettings.layout.find(
+    (item) => item.id === layoutId
+  );
+  if (layoutItem) {
+    layoutItem.enabled = enabled;
+  }
+
+  // 設定を保存
+  try {
+    const response = await call({
+      type: 'SAVE_SETTINGS',
+      settings: currentSettings,
+    });
+
+    if (response.success) {
+      console.log('Layout settings saved');
+    } else {
+      console.error('Failed to save layout settings:', response.error);
+    }
+  } catch (error) {
+    console.error('Error saving layout settings:', error);
+  }
+}
+
+/**
+ * キャッシュ設定のUIを更新
+ * TTLは分、古いデータの表示上限は時間、保存容量はMBで表示する
+ */
+function updateCacheSettingsUI(settings: Settings) {
+  const cache = getCacheSettings(settings);
 
-  // 設定を読み込む
-  await loadSettings();
+  CACHE_DATA_TYPES.forEach((dataType) => {
+    const input = document.getElementById(
+      `cache-ttl-${dataType}`
+    ) as HTMLInputElement;
+    if (input) {
+      input.value = String(Math.round(cache.ttl[dataType] / 60));
+    }
+  });
 
-  // イベントリスナーを設定
-  setupEventListeners();
+  const maxStaleAgeInput = document.getElementById(
+    'cache-max-stale-age'
+  ) as HTMLInputElement;
+  if (maxStaleAgeInput) {
+    maxStaleAgeInput.value = String(Math.round(cache.maxStaleAge / 3600));
+  }
 
-  // UIを更新
-  updateUI();
+  const storageBudgetInput = document.getElementById(
+    'cache-storage-budget'
+  ) as HTMLInputElement;
+  if (storageBudgetInput) {
+    storageBudgetInput.value = String(
+      Math.round(cache.storageBudget / (1024 * 1024))
+    );
+  }
 }
 
 /**
- * 設定を読み込む
+ * キャッシュ設定保存ハンドラー
  */
-async function loadSettings() {
-  try {
-    const response = await chrome.runtime.sendMessage({
-      type: 'GET_SETTINGS',
-    } as Message);
+async function handleSaveCacheSettings() {
+  if (!currentSettings) {
+    return;
+  }
 
-    if (response.success) {
-      currentSettings = response.data;
-      console.log('Settings loaded:', currentSettings);
-    } else {
-      console.error('Failed to load settings:', response.error);
-      showStatus('token-status', 'error', '設定の読み込みに失敗しました');
+  const cache: CacheSettings = getCacheSettings(currentSettings);
+
+  CACHE_DATA_TYPES.forEach((dataType) => {
+    const input = document.getElementById(
+      `cache-ttl-${dataType}`
+    ) as HTMLInputElement;
+    if (input) {
+      cache.ttl[dataType] = Number(input.value) * 60;
     }
-  } catch (error) {
-    console.error('Error loading settings:', error);
-    showStatus('token-status', 'error', '設定の読み込みに失敗しました');
+  });
+
+  const maxStaleAgeInput = document.getElementById(
+    'cache-max-stale-age'
+  ) as HTMLInputElement;
+  if (maxStaleAgeInput) {
+    cache.maxStaleAge = Number(maxStaleAgeInput.value) * 3600;
+  }
+
+  const storageBudgetInput = document.getElementById(
+    'cache-storage-budget'
+  ) as HTMLInputElement;
+  if (storageBudgetInput) {
+    cache.storageBudget = Number(storageBudgetInput.value) * 1024 * 1024;
+  }
+
+  const validation = validateCacheSettings(cache);
+  if (!validation.valid) {
+    showStatus('cache-status', 'error', validation.errors.join(', '));
+    return;
+  }
+
+  currentSettings.cache = cache;
+
+  if (await persistSettings()) {
+    showStatus('cache-status', 'success', 'キャッシュ設定を保存しました');
+  } else {
+    showStatus('cache-status', 'error', 'キャッシュ設定の保存に失敗しました');
   }
 }
 
 /**
- * UIを更新
+ * バックグラウンド更新設定のUIを更新
  */
-function updateUI() {
+function updatePrefetchSettingsUI(settings: Settings) {
+  const enabledCheckbox = document.getElementById(
+    'prefetch-enabled'
+  ) as HTMLInputElement;
+  if (enabledCheckbox) {
+    enabledCheckbox.checked = settings.prefetch.enabled;
+  }
+
+  const intervalInput = document.getElementById(
+    'prefetch-interval'
+  ) as HTMLInputElement;
+  if (intervalInput) {
+    intervalInput.value = String(settings.prefetch.interval);
+  }
+}
+
+/**
+ * バックグラウンド更新設定保存ハンドラー
+ */
+async function handleSavePrefetchSettings() {
   if (!currentSettings) {
     return;
   }
 
-  // トークン入力フィールド
-  const tokenInput = document.getElementById('token') as HTMLInputElement;
-  if (tokenInput && currentSettings.token) {
-    tokenInput.value = currentSettings.token;
+  const enabledCheckbox = document.getElementById(
+    'prefetch-enabled'
+  ) as HTMLInputElement;
+  const intervalInput = document.getElementById(
+    'prefetch-interval'
+  ) as HTMLInputElement;
+
+  const prefetch: PrefetchSettings = {
+    enabled: enabledCheckbox?.checked ?? currentSettings.prefetch.enabled,
+    interval: intervalInput
+      ? Number(intervalInput.value)
+      : currentSettings.prefetch.interval,
+  };
+
+  const validation = validatePrefetchSettings(prefetch);
+  if (!validation.valid) {
+    showStatus('prefetch-status', 'error', validation.errors.join(', '));
+    return;
   }
 
-  // レイアウト設定チェックボックス
-  currentSettings.layout.forEach((item) => {
-    const checkbox = document.getElementById(
-      `layout-${item.id}`
-    ) as HTMLInputElement;
-    if (checkbox) {
-      checkbox.checked = item.enabled;
-    }
-  });
+  currentSettings.prefetch = prefetch;
+
+  if (await persistSettings()) {
+    showStatus(
+      'prefetch-status',
+      'success',
+      'バックグラウンド更新の設定を保存しました'
+    );
+  } else {
+    showStatus(
+      'prefetch-status',
+      'error',
+      'バックグラウンド更新の設定の保存に失敗しました'
+    );
+  }
 }
 
 /**
- * イベントリスナーを設定
+ * バッジ設定のUIを更新
  */
-function setupEventListeners() {
-  // トークンの表示/非表示切り替え
-  const toggleTokenBtn = document.getElementById('toggle-token-visibility');
-  const tokenInput = document.getElementById('token') as HTMLInputElement;
-  if (toggleTokenBtn && tokenInput) {
-    toggleTokenBtn.addEventListener('click', () => {
-      if (tokenInput.type === 'password') {
-        tokenInput.type = 'text';
-        toggleTokenBtn.textContent = '非表示';
-      } else {
-        tokenInput.type = 'password';
-        toggleTokenBtn.textContent = '表示';
-      }
-    });
+function updateBadgeSettingsUI(settings: Settings) {
+  const mentionsCheckbox = document.getElementById(
+    'badge-mentions'
+  ) as HTMLInputElement;
+  if (mentionsCheckbox) {
+    mentionsCheckbox.checked = settings.badge.mentions;
   }
 
-  // トークン保存ボタン
-  const saveTokenBtn = document.getElementById('save-token');
-  if (saveTokenBtn) {
-    saveTokenBtn.addEventListener('click', handleSaveToken);
+  const reviewRequestsCheckbox = document.getElementById(
+    'badge-review-requests'
+  ) as HTMLInputElement;
+  if (reviewRequestsCheckbox) {
+    reviewRequestsCheckbox.checked = settings.badge.reviewRequests;
   }
+}
 
-  // トークン検証ボタン
-  const validateTokenBtn = document.getElementById('validate-token');
-  if (validateTokenBtn) {
-    validateTokenBtn.addEventListener('click', handleValidateToken);
+/**
+ * バッジ設定保存ハンドラー
+ */
+async function handleSaveBadgeSettings() {
+  if (!currentSettings) {
+    return;
   }
 
-  // レイアウト設定チェックボックス
-  const layoutCheckboxes = document.querySelectorAll(
-    '.layout-item input[type="checkbox"]'
-  );
-  layoutCheckboxes.forEach((checkbox) => {
-    checkbox.addEventListener('change', handleLayoutChange);
-  });
+  const mentionsCheckbox = document.getElementById(
+    'badge-mentions'
+  ) as HTMLInputElement;
+  const reviewRequestsCheckbox = document.getElementById(
+    'badge-review-requests'
+  ) as HTMLInputElement;
 
-  // Export/Importボタン
-  const exportBtn = document.getElementById('export-settings');
-  const importBtn = document.getElementById('import-settings');
-  if (exportBtn) {
-    exportBtn.addEventListener('click', handleExport);
+  const badge: BadgeSettings = {
+    mentions: mentionsCheckbox?.checked ?? currentSettings.badge.mentions,
+    reviewRequests:
+      reviewRequestsCheckbox?.checked ?? currentSettings.badge.reviewRequests,
+  };
+
+  const validation = validateBadgeSettings(badge);
+  if (!validation.valid) {
+    showStatus('badge-status', 'error', validation.errors.join(', '));
+    return;
   }
-  if (importBtn) {
-    importBtn.addEventListener('click', handleImport);
+
+  currentSettings.badge = badge;
+
+  if (await persistSettings()) {
+    showStatus('badge-status', 'success', 'バッジの設定を保存しました');
+  } else {
+    showStatus('badge-status', 'error', 'バッジの設定の保存に失敗しました');
   }
+}
 
-  // ファイル選択input
-  const fileInput = document.getElementById('import-file') as HTMLInputElement;
-  if (fileInput) {
-    fileInput.addEventListener('change', handleFileSelect);
+/**
+ * 通知設定のUIを更新
+ * ミュートするリポジトリ・Organizationは1行に1つ表示する
+ */
+function updateNotificationSettingsUI(settings: Settings) {
+  const { notifications } = settings;
+
+  const enabledCheckbox = document.getElementById(
+    'notifications-enabled'
+  ) as HTMLInputElement;
+  if (enabledCheckbox) {
+    enabledCheckbox.checked = notifications.enabled;
+  }
+
+  const mutedRepositoriesInput = document.getElementById(
+    'muted-repositories'
+  ) as HTMLTextAreaElement;
+  if (mutedRepositoriesInput) {
+    mutedRepositoriesInput.value = notifications.mutedRepositories.join('\n');
+  }
+
+  const mutedOrganizationsInput = document.getElementById(
+    'muted-organizations'
+  ) as HTMLTextAreaElement;
+  if (mutedOrganizationsInput) {
+    mutedOrganizationsInput.value = notifications.mutedOrganizations.join('\n');
+  }
+
+  const quietHoursCheckbox = document.getElementById(
+    'quiet-hours-enabled'
+  ) as HTMLInputElement;
+  if (quietHoursCheckbox) {
+    quietHoursCheckbox.checked = notifications.quietHours.enabled;
+  }
+
+  const quietHoursStartInput = document.getElementById(
+    'quiet-hours-start'
+  ) as HTMLInputElement;
+  if (quietHoursStartInput) {
+    quietHoursStartInput.value = notifications.quietHours.start;
+  }
+
+  const quietHoursEndInput = document.getElementById(
+    'quiet-hours-end'
+  ) as HTMLInputElement;
+  if (quietHoursEndInput) {
+    quietHoursEndInput.value = notifications.quietHours.end;
   }
 }
 
 /**
- * トークン保存ハンドラー
+ * 通知設定保存ハンドラー
  */
-async function handleSaveToken() {
-  const tokenInput = document.getElementById('token') as HTMLInputElement;
-  if (!tokenInput) {
+async function handleSaveNotificationSettings() {
+  if (!currentSettings) {
     return;
   }
 
-  const token = tokenInput.value.trim();
-  if (!token) {
-    showStatus('token-status', 'error', 'トークンを入力してください');
+  const getInput = (id: string) =>
+    document.getElementById(id) as HTMLInputElement | null;
+  const current = currentSettings.notifications;
+
+  const notifications: NotificationSettings = {
+    enabled: getInput('notifications-enabled')?.checked ?? current.enabled,
+    mutedRepositories: parseLines(getInput('muted-repositories')?.value ?? ''),
+    mutedOrganizations: parseLines(
+      getInput('muted-organizations')?.value ?? ''
+    ),
+    quietHours: {
+      enabled:
+        getInput('quiet-hours-enabled')?.checked ?? current.quietHours.enabled,
+      start: getInput('quiet-hours-start')?.value ?? current.quietHours.start,
+      end: getInput('quiet-hours-end')?.value ?? current.quietHours.end,
+    },
+  };
+
+  const validation = validateNotificationSettings(notifications);
+  if (!validation.valid) {
+    showStatus('notification-status', 'error', validation.errors.join(', '));
     return;
   }
 
-  try {
-    showStatus('token-status', 'info', '保存中...');
+  currentSettings.notifications = notifications;
 
-    const response = await chrome.runtime.sendMessage({
-      type: 'SAVE_TOKEN',
-      token,
-    } as Message);
+  if (await persistSettings()) {
+    showStatus('notification-status', 'success', '通知の設定を保存しました');
+  } else {
+    showStatus(
+      'notification-status',
+      'error',
+      '通知の設定の保存に失敗しました'
+    );
+  }
+}
+
+/**
+ * 1行に1つ入力された値を配列に変換（空行は無視する）
+ * @param text 入力されたテキスト
+ * @returns 値の配列
+ */
+function parseLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * キャッシュの状態を読み込んで表示
+ */
+async function loadCacheDiagnostics() {
+  try {
+    const response = await call({ type: 'GET_CACHE_DIAGNOSTICS' });
 
     if (response.success) {
-      showStatus('token-status', 'success', 'トークンを保存しました');
-      // 設定を再読み込み
-      await loadSettings();
+      renderCacheDiagnostics(response.data);
     } else {
       showStatus(
-        'token-status',
+        'cache-diagnostics-status',
         'error',
-        `保存に失敗しました: ${response.error}`
+        `キャッシュの状態を取得できませんでした: ${response.error}`
       );
     }
   } catch (error) {
-    console.error('Error saving token:', error);
-    showStatus('token-status', 'error', '保存に失敗しました');
+    console.error('Error loading cache diagnostics:', error);
+    showStatus(
+      'cache-diagnostics-status',
+      'error',
+      'キャッシュの状態を取得できませんでした'
+    );
   }
 }
 
 /**
- * トークン検証ハンドラー（Phase 3で実装）
+ * キャッシュの状態を表示
  */
-async function handleValidateToken() {
-  try {
-    showStatus('token-status', 'info', '検証中...');
+function renderCacheDiagnostics(diagnostics: CacheDiagnostics) {
+  const rateLimitSummary = document.getElementById('rate-limit-summary');
+  const cacheSummary = document.getElementById('cache-summary');
+  const list = document.getElementById('cache-entry-list');
+  if (!rateLimitSummary || !cacheSummary || !list) {
+    return;
+  }
 
-    const response = await chrome.runtime.sendMessage({
-      type: 'VALIDATE_TOKEN',
-    } as Message);
+  // レートリミット
+  const { rateLimit } = diagnostics;
+  rateLimitSummary.textContent = rateLimit
+    ? `APIレートリミット: 残り ${rateLimit.remaining} / ${rateLimit.limit}（リセット: ${new Date(rateLimit.reset * 1000).toLocaleTimeString()}）`
+    : 'APIレートリミット: まだ取得していません';
 
-    if (response.data?.valid) {
-      showStatus('token-status', 'success', 'トークンは有効です');
+  // 合計
+  const { hits, stale, misses } = diagnostics.totals;
+  const lookups = hits + stale + misses;
+  const hitRate =
+    lookups > 0 ? Math.round(((hits + stale) / lookups) * 100) : 0;
+  cacheSummary.textContent =
+    `${diagnostics.entries.length}件、${formatBytes(diagnostics.totalSize)} / ${formatBytes(diagnostics.storageBudget)}` +
+    `。ヒット ${hits} / 期限切れ ${stale} / ミス ${misses}（ヒット率 ${hitRate}%、` +
+    `${new Date(diagnostics.statsSince).toLocaleString()} から）`;
+
+  // エントリ一覧
+  list.innerHTML = '';
+
+  if (diagnostics.entries.length === 0) {
+    const row = document.createElement('tr');
+    const cell = document.createElement('td');
+    cell.colSpan = 7;
+    cell.className = 'empty';
+    cell.textContent = 'キャッシュはありません';
+    row.appendChild(cell);
+    list.appendChild(row);
+    return;
+  }
+
+  diagnostics.entries
+    .sort((a, b) => a.key.localeCompare(b.key))
+    .forEach((entry) => {
+      const row = document.createElement('tr');
+      if (entry.expired) {
+        row.classList.add('expired');
+      }
+
+      const cells = [
+        entry.key,
+        entry.store === 'indexedDB'
+          ? 'IndexedDB'
+          : entry.store === 'memory'
+            ? 'メモリのみ'
+            : 'Storage',
+        formatBytes(entry.size),
+        formatDuration(entry.age),
+        entry.expired
+          ? `${formatDuration(entry.ttl)}（期限切れ）`
+          : formatDuration(entry.ttl),
+        `${entry.stats.hits} / ${entry.stats.stale} / ${entry.stats.misses}`,
+      ];
+      cells.forEach((text, index) => {
+        const cell = document.createElement('td');
+        cell.textContent = text;
+        if (index === 0) {
+          cell.className = 'cache-key';
+        }
+        row.appendChild(cell);
+      });
+
+      const actionCell = document.createElement('td');
+      const purgeBtn = document.createElement('button');
+      purgeBtn.type = 'button';
+      purgeBtn.textContent = '削除';
+      purgeBtn.addEventListener('click', () =>
+        handlePurgeCacheEntry(entry.key)
+      );
+      actionCell.appendChild(purgeBtn);
+      row.appendChild(actionCell);
+
+      list.appendChild(row);
+    });
+}
+
+/**
+ * キャッシュエントリ削除ハンドラー
+ */
+async function handlePurgeCacheEntry(key: string) {
+  try {
+    const response = await call({
+      type: 'PURGE_CACHE_ENTRY',
+      key,
+    });
+
+    if (response.success) {
+      showStatus(
+        'cache-diagnostics-status',
+        'success',
+        `${key} を削除しました`
+      );
     } else {
       showStatus(
-        'token-status',
+        'cache-diagnostics-status',
         'error',
-        response.data?.message || 'トークンが無効です'
+        `削除に失敗しました: ${response.error}`
       );
     }
   } catch (error) {
-    console.error('Error validating token:', error);
-    showStatus('token-status', 'error', '検証に失敗しました');
+    console.error('Error purging cache entry:', error);
+    showStatus('cache-diagnostics-status', 'error', '削除に失敗しました');
   }
+
+  await loadCacheDiagnostics();
 }
 
 /**
- * レイアウト変更ハンドラー
+ * すべてのキャッシュ削除ハンドラー
  */
-async function handleLayoutChange(event: Event) {
-  const checkbox = event.target as HTMLInputElement;
-  const layoutId = checkbox.id.replace('layout-', '');
-  const enabled = checkbox.checked;
-
-  if (!currentSettings) {
-    return;
-  }
-
-  // 設定を更新
-  const layoutItem = currentSettings.layout.find((item) => item.id === layoutId);
-  if (layoutItem) {
-    layoutItem.enabled = enabled;
-  }
-
-  // 設定を保存
+async function handleClearCache() {
   try {
-    const response = await chrome.runtime.sendMessage({
-      type: 'SAVE_SETTINGS',
-      settings: currentSettings,
-    } as Message);
+    const response = await call({ type: 'REFRESH_DATA' });
 
     if (response.success) {
-      console.log('Layout settings saved');
+      showStatus(
+        'cache-diagnostics-status',
+        'success',
+        'キャッシュをすべて削除しました'
+      );
     } else {
-      console.error('Failed to save layout settings:', response.error);
+      showStatus(
+        'cache-diagnostics-status',
+        'error',
+        `削除に失敗しました: ${response.error}`
+      );
     }
   } catch (error) {
-    console.error('Error saving layout settings:', error);
+    console.error('Error clearing cache:', error);
+    showStatus('cache-diagnostics-status', 'error', '削除に失敗しました');
+  }
+
+  await loadCacheDiagnostics();
+}
+
+/**
+ * バイト数を表示用に整形
+ * @param bytes バイト数
+ * @returns 例: 1.2 MB
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * 秒数を表示用に整形
+ * @param seconds 秒数
+ * @returns 例: 5分
+ */
+function formatDuration(seconds: number): string {
+  if (seconds < 60) {
+    return `${seconds}秒`;
   }
+  if (seconds < 60 * 60) {
+    return `${Math.floor(seconds / 60)}分`;
+  }
+  if (seconds < 24 * 60 * 60) {
+    return `${Math.floor(seconds / 3600)}時間`;
+  }
+  return `${Math.floor(seconds / 86400)}日`;
 }
 
 /**
@@ -242,8 +1634,26 @@ async function handleExport() {
 
     showStatus('export-status', 'info', 'エクスポート中...');
 
+    // トークンは明示的に含めることを選んだ場合のみ出力する
+    const exportData: SettingsExport = { ...currentSettings };
+    delete exportData.token;
+    if (isIncludeSecretsChecked()) {
+      const response = await call({ type: 'EXPORT_SECRETS' });
+      if (!response.success) {
+        showStatus(
+          'export-status',
+          'error',
+          `トークンを取得できませんでした: ${response.error}`
+        );
+        return;
+      }
+      if (response.data.token) {
+        exportData.token = response.data.token;
+      }
+    }
+
     // 設定をJSON文字列に変換
-    const jsonString = JSON.stringify(currentSettings, null, 2);
+    const jsonString = JSON.stringify(exportData, null, 2);
 
     // Blobを作成
     const blob = new Blob([jsonString], { type: 'application/json' });
@@ -322,14 +1732,45 @@ async function handleFileSelect(event: Event) {
       return;
     }
 
+    // トークンは設定とは別に保存する
+    const { token, ...settings } = data as SettingsExport;
+
     // 設定を保存
-    const response = await chrome.runtime.sendMessage({
+    const response = await call({
       type: 'SAVE_SETTINGS',
-      settings: data,
-    } as Message);
+      settings,
+    });
 
     if (response.success) {
-      showStatus('export-status', 'success', '設定をインポートしました');
+      if (token && isIncludeSecretsChecked()) {
+        const tokenResponse = await call({
+          type: 'SAVE_TOKEN',
+          token,
+        });
+        await loadAuthStatus();
+
+        if (tokenResponse.success) {
+          showStatus(
+            'export-status',
+            'success',
+            '設定とトークンをインポートしました'
+          );
+        } else {
+          showStatus(
+            'export-status',
+            'error',
+            `設定をインポートしましたが、トークンの保存に失敗しました: ${tokenResponse.error}`
+          );
+        }
+      } else if (token) {
+        showStatus(
+          'export-status',
+          'info',
+          '設定をインポートしました（ファイル内のトークンは読み込んでいません）'
+        );
+      } else {
+        showStatus('export-status', 'success', '設定をインポートしました');
+      }
 
       // 設定を再読み込み
       await loadSettings();
@@ -356,6 +1797,16 @@ async function handleFileSelect(event: Event) {
   }
 }
 
+/**
+ * トークンを含めてエクスポート/インポートするか
+ */
+function isIncludeSecretsChecked(): boolean {
+  const checkbox = document.getElementById(
+    'include-secrets'
+  ) as HTMLInputElement;
+  return checkbox?.checked ?? false;
+}
+
 /**
  * ファイルをテキストとして読み込む
  */
@@ -402,4 +1853,3 @@ function showStatus(
 
 // 初期化実行
 init();
-
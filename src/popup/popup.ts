@@ -0,0 +1,402 @@
+import {
+  DashboardData,
+  DashboardPortMessage,
+  DashboardSection,
+} from '../types/messages';
+import { Settings, DEFAULT_SETTINGS } from '../types/settings';
+import { call, connectDashboardPort, STALE_PAGE_MESSAGE } from '../utils/rpc';
+import { renderIssueList } from '../content/components/issue-list';
+import { renderRepositoryList } from '../content/components/repository-list';
+import { renderProjectSummary } from '../content/components/project-summary';
+import {
+  createElement,
+  createErrorElement,
+  createLoadingElement,
+  formatRelativeTime,
+} from '../content/dom-manipulator';
+
+/**
+ * Popup Page
+ * 拡張機能アイコンから開くコンパクトなダッシュボード
+ */
+
+/**
+ * セクションのタイトル
+ */
+const SECTION_TITLES: Record<string, string> = {
+  repositories: 'リポジトリ',
+  issues: 'メンションされたIssue',
+  projects: 'プロジェクト',
+};
+
+let currentSettings: Settings = DEFAULT_SETTINGS;
+let currentData: DashboardData | null = null;
+let currentPort: chrome.runtime.Port | null = null; // 取得中のPort
+let sectionFetchedAt: Partial<Record<DashboardSection, number>> = {}; // 受け取ったセクションの取得時刻
+const staleSections = new Set<DashboardSection>(); // 期限切れのデータを表示中のセクション
+
+/**
+ * 初期化処理
+ */
+async function init() {
+  await loadSettings();
+  createSections();
+  setupEventListeners();
+  loadData();
+}
+
+/**
+ * 設定を読み込む
+ */
+async function loadSettings() {
+  try {
+    const response = await call({ type: 'GET_SETTINGS' });
+
+    if (response.success) {
+      currentSettings = response.data;
+    } else {
+      console.error('Failed to load settings:', response.error);
+    }
+  } catch (error) {
+    console.error('Error loading settings:', error);
+  }
+}
+
+/**
+ * 有効なセクションをレイアウトの順番で作成
+ */
+function createSections() {
+  const container = document.getElementById('popup-sections');
+  if (!container) {
+    return;
+  }
+
+  container.innerHTML = '';
+
+  currentSettings.layout
+    .filter((item) => item.enabled && SECTION_TITLES[item.id])
+    .sort((a, b) => a.order - b.order)
+    .forEach((item) => {
+      const section = createElement('section', {
+        id: `popup-section-${item.id}`,
+        className: 'popup-section',
+      });
+      const header = createElement('h2', {
+        textContent: SECTION_TITLES[item.id],
+      });
+      const content = createElement('div', {
+        className: 'section-content',
+      });
+      content.appendChild(createLoadingElement());
+
+      section.appendChild(header);
+      section.appendChild(content);
+      container.appendChild(section);
+    });
+}
+
+/**
+ * イベントリスナーを設定
+ */
+function setupEventListeners() {
+  // 検索ボックス
+  const searchInput = document.getElementById('popup-search');
+  if (searchInput) {
+    searchInput.addEventListener('input', renderData);
+  }
+
+  // 更新ボタン
+  const refreshBtn = document.getElementById('refresh-data');
+  if (refreshBtn) {
+    refreshBtn.addEventListener('click', handleRefresh);
+  }
+
+  // 設定ボタン
+  const optionsBtn = document.getElementById('open-options');
+  if (optionsBtn) {
+    optionsBtn.addEventListener('click', () => {
+      chrome.runtime.openOptionsPage();
+    });
+  }
+}
+
+/**
+ * データを取得して描画
+ * 取得できたセクションから順に描画する。ポップアップを閉じるとPortが切断され、
+ * Service Workerでの取得もキャンセルされる
+ */
+function loadData() {
+  if (currentPort) {
+    return;
+  }
+
+  const port = connectDashboardPort();
+  if (!port) {
+    showError(STALE_PAGE_MESSAGE);
+    return;
+  }
+
+  currentPort = port;
+  sectionFetchedAt = {};
+  staleSections.clear();
+  setRefreshButtonState(true);
+
+  port.onMessage.addListener((message: DashboardPortMessage) => {
+    if (currentPort === port) {
+      handleDashboardPortMessage(message);
+    }
+  });
+
+  // Service Workerが停止した場合など、完了前に切断された
+  port.onDisconnect.addListener(() => {
+    if (currentPort !== port) {
+      return;
+    }
+    console.error('Data port disconnected:', chrome.runtime.lastError);
+    showPendingSectionsError('データの取得が中断されました');
+    finishLoading();
+  });
+}
+
+/**
+ * Portで受け取ったメッセージの処理
+ * @param message 受け取ったメッセージ
+ */
+function handleDashboardPortMessage(message: DashboardPortMessage) {
+  switch (message.type) {
+    case 'SECTION_DATA':
+      sectionFetchedAt[message.section] = message.fetchedAt;
+      currentData = { ...currentData, ...message.data };
+
+      // 期限切れのデータは、Service Workerが更新したデータをこの後に送る
+      if (message.stale) {
+        staleSections.add(message.section);
+      } else {
+        staleSections.delete(message.section);
+      }
+      renderData();
+      break;
+
+    case 'DASHBOARD_COMPLETE':
+      // 更新に失敗したセクションは、期限切れのデータの表示を維持する
+      staleSections.clear();
+      renderStatus();
+
+      // 表示したのでアイコンのバッジをクリア
+      call({ type: 'DASHBOARD_VIEWED' }).catch((error) => {
+        console.error('Failed to notify dashboard viewed:', error);
+      });
+      finishLoading();
+      break;
+
+    case 'DASHBOARD_ERROR':
+      console.error('Failed to fetch data:', message.error);
+      showPendingSectionsError(message.error);
+      finishLoading();
+      break;
+  }
+}
+
+/**
+ * データの取得を終了し、Portを閉じる
+ */
+function finishLoading() {
+  const port = currentPort;
+  currentPort = null;
+  setRefreshButtonState(false);
+  port?.disconnect();
+}
+
+/**
+ * 更新ボタンのハンドラー
+ * キャッシュをクリアしてから取得し直す
+ */
+async function handleRefresh() {
+  if (currentPort) {
+    return;
+  }
+
+  try {
+    const response = await call({ type: 'REFRESH_DATA' });
+
+    if (!response.success) {
+      showError(response.error || 'データの更新に失敗しました');
+      return;
+    }
+  } catch (error) {
+    console.error('Error refreshing data:', error);
+    showError('データの更新に失敗しました');
+    return;
+  }
+
+  currentData = null;
+  createSections();
+  loadData();
+}
+
+/**
+ * 取得したデータを検索キーワードで絞り込んで描画
+ */
+function renderData() {
+  if (!currentData) {
+    return;
+  }
+
+  const query = getSearchQuery();
+  const matches = (...values: (string | null | undefined)[]) =>
+    !query || values.some((value) => value?.toLowerCase().includes(query));
+
+  const { repositories, issues, projects } = currentData;
+
+  const repositoriesContent = getSectionContent('repositories');
+  if (repositoriesContent && repositories) {
+    if ('error' in repositories) {
+      showSectionError(repositoriesContent, repositories.error.message);
+    } else {
+      const groups = repositories.data
+        .map((group) => ({
+          ...group,
+          repositories: group.repositories.filter((repo) =>
+            matches(repo.full_name, repo.description)
+          ),
+        }))
+        .filter((group) => group.repositories.length > 0);
+      renderRepositoryList(repositoriesContent, groups);
+    }
+  }
+
+  const issuesContent = getSectionContent('issues');
+  if (issuesContent && issues) {
+    if ('error' in issues) {
+      showSectionError(issuesContent, issues.error.message);
+    } else {
+      renderIssueList(
+        issuesContent,
+        issues.data.filter((issue) =>
+          matches(issue.title, issue.repository?.full_name)
+        )
+      );
+    }
+  }
+
+  const projectsContent = getSectionContent('projects');
+  if (projectsContent && projects) {
+    if ('error' in projects) {
+      showSectionError(projectsContent, projects.error.message);
+    } else {
+      renderProjectSummary(
+        projectsContent,
+        projects.data.filter((project) => matches(project.name, project.body))
+      );
+    }
+  }
+
+  renderStatus();
+}
+
+/**
+ * 表示中のデータの取得時刻を表示
+ * 複数のセクションがある場合は最も古い取得時刻を表示する
+ */
+function renderStatus() {
+  const fetchedAt = Object.values(sectionFetchedAt);
+  if (fetchedAt.length === 0) {
+    showStatus('');
+    return;
+  }
+
+  const time = formatRelativeTime(
+    new Date(Math.min(...fetchedAt)).toISOString()
+  );
+  showStatus(
+    staleSections.size > 0
+      ? `${time}のデータを表示中、更新しています…`
+      : `${time}に取得したデータ`
+  );
+}
+
+/**
+ * 検索キーワードを取得
+ * @returns 小文字に変換したキーワード
+ */
+function getSearchQuery(): string {
+  const searchInput = document.getElementById(
+    'popup-search'
+  ) as HTMLInputElement | null;
+  return searchInput?.value.trim().toLowerCase() || '';
+}
+
+/**
+ * セクションの描画先を取得
+ * @param sectionId セクションID
+ * @returns 描画先の要素、またはセクションが無効な場合 null
+ */
+function getSectionContent(sectionId: string): HTMLElement | null {
+  return document.querySelector(`#popup-section-${sectionId} .section-content`);
+}
+
+/**
+ * 各セクションにエラーを表示
+ * @param message エラーメッセージ
+ */
+function showError(message: string) {
+  document
+    .querySelectorAll<HTMLElement>('.popup-section .section-content')
+    .forEach((content) => showSectionError(content, message));
+}
+
+/**
+ * まだデータを受け取っていないセクションにエラーを表示
+ * @param message エラーメッセージ
+ */
+function showPendingSectionsError(message: string) {
+  Object.keys(SECTION_TITLES)
+    .filter(
+      (sectionId) =>
+        sectionFetchedAt[sectionId as DashboardSection] === undefined
+    )
+    .forEach((sectionId) => {
+      const content = getSectionContent(sectionId);
+      if (content) {
+        showSectionError(content, message);
+      }
+    });
+}
+
+/**
+ * セクションにエラーを表示
+ * @param content セクションの描画先
+ * @param message エラーメッセージ
+ */
+function showSectionError(content: HTMLElement, message: string) {
+  content.innerHTML = '';
+  content.appendChild(createErrorElement(message));
+}
+
+/**
+ * ステータスメッセージを表示
+ * @param message メッセージ
+ */
+function showStatus(message: string) {
+  const status = document.getElementById('popup-status');
+  if (status) {
+    status.textContent = message;
+  }
+}
+
+/**
+ * 更新ボタンの状態を変更
+ * @param isLoading 取得中の場合true
+ */
+function setRefreshButtonState(isLoading: boolean) {
+  const refreshBtn = document.getElementById(
+    'refresh-data'
+  ) as HTMLButtonElement | null;
+  if (refreshBtn) {
+    refreshBtn.disabled = isLoading;
+    refreshBtn.textContent = isLoading ? '更新中…' : '更新';
+  }
+}
+
+// 初期化実行
+init();
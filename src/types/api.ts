@@ -64,6 +64,15 @@ export interface Issue {
   };
 }
 
+/**
+ * 検索APIのレスポンス
+ */
+export interface SearchResult<T> {
+  total_count: number;
+  incomplete_results: boolean;
+  items: T[];
+}
+
 /**
  * GitHub Labelの定義
  */
@@ -96,6 +105,47 @@ export interface RateLimit {
   remaining: number;
   reset: number;
   used: number;
+  cost?: number; // GraphQLクエリのコスト
+  resource?: string; // core / graphql / search など
+}
+
+/**
+ * リクエストの優先度
+ * high: 表示中のセクション、normal: 通常、low: バックグラウンドの先読み
+ */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+/**
+ * UIに表示するレートリミットの状況
+ */
+export interface RateLimitStatus {
+  limit: number;
+  remaining: number;
+  reset: number; // リセット時刻（UNIX秒）
+  updatedAt: number; // 記録した時刻（ミリ秒）
+  blockedUntil: number | null; // セカンダリレートリミット等で停止中の場合の再開時刻（ミリ秒）
+  quotaOkUntil: number | null; // 現在のペースで残量が尽きる推定時刻（ミリ秒）。nullはリセットまで問題なし
+}
+
+/**
+ * GraphQL の rateLimit フィールド
+ */
+export interface GraphQLRateLimit {
+  limit: number;
+  cost: number;
+  remaining: number;
+  resetAt: string;
+  used?: number;
+}
+
+/**
+ * GraphQL エラーの定義
+ */
+export interface GraphQLErrorDetail {
+  message: string;
+  type?: string;
+  path?: (string | number)[];
+  locations?: { line: number; column: number }[];
 }
 
 /**
@@ -105,4 +155,3 @@ export interface GitHubError {
   message: string;
   documentation_url?: string;
 }
-
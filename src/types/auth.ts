@@ -0,0 +1,78 @@
+/**
+ * 認証関連の型定義
+ */
+
+/**
+ * デバイスフローの開始結果
+ */
+export interface DeviceCodeInfo {
+  deviceCode: string;
+  userCode: string; // ユーザーがGitHub上で入力するコード
+  verificationUri: string; // コードを入力するページのURL
+  interval: number; // ポーリング間隔（秒）
+  expiresAt: number; // コードの有効期限（ミリ秒）
+}
+
+/**
+ * デバイスフローのポーリング状態
+ * pending: ユーザーの承認待ち、slow_down: ポーリング間隔を延ばす必要あり
+ * complete: トークン取得完了、expired: コードの期限切れ、denied: ユーザーが拒否
+ */
+export type DeviceFlowStatus =
+  'pending' | 'slow_down' | 'complete' | 'expired' | 'denied';
+
+/**
+ * デバイスフローのポーリング結果
+ */
+export interface DeviceFlowPollResult {
+  status: DeviceFlowStatus;
+  interval?: number; // slow_down時の新しいポーリング間隔（秒）
+}
+
+/**
+ * OAuthで取得したトークンの更新情報
+ * アクセストークン自体は通常のトークンと同じ場所に保存する
+ */
+export interface OAuthCredentials {
+  clientId: string;
+  baseUrl: string; // トークンを発行したOAuthサーバー（リフレッシュトークンはシークレットストアに保存）
+  expiresAt: number | null; // アクセストークンの有効期限（期限なしの場合null）
+  refreshTokenExpiresAt: number | null;
+}
+
+/**
+ * トークンの権限・有効期限の情報
+ */
+export interface TokenInfo {
+  tokenKey: string; // どのトークンの情報か（ホストとトークンのハッシュ）
+  userId: number; // 認証されたユーザーのID（キャッシュの名前空間に使用）
+  login: string;
+  scopes: string[] | null; // X-OAuth-Scopes（fine-grained token等で取得できない場合null）
+  expiresAt: number | null; // 有効期限（期限なしの場合null）
+  checkedAt: number;
+}
+
+/**
+ * ダッシュボードのセクションごとの利用可否
+ * available: 利用可能、limited: スコープ不足で一部のデータのみ、unknown: 判定できない
+ */
+export interface SectionCapability {
+  sectionId: string;
+  status: 'available' | 'limited' | 'unknown';
+  missingScopes: string[];
+}
+
+/**
+ * トークンの保存方法
+ * local: この端末に保存、session: ブラウザを閉じるまで保持、encrypted: パスフレーズで暗号化して保存
+ */
+export type SecretStorageMode = 'local' | 'session' | 'encrypted';
+
+/**
+ * 認証状態
+ */
+export interface AuthStatus {
+  mode: SecretStorageMode;
+  hasToken: boolean;
+  locked: boolean; // 暗号化されたトークンのロックが解除されていない
+}
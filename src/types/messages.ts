@@ -1,5 +1,13 @@
-import { Settings } from './settings';
-import { Repository, Issue, Project } from './api';
+import { Settings, CacheEntryDiagnostics, CacheStats } from './settings';
+import {
+  AuthStatus,
+  DeviceCodeInfo,
+  DeviceFlowPollResult,
+  SecretStorageMode,
+  SectionCapability,
+  TokenInfo,
+} from './auth';
+import { Repository, Issue, Project, User, RateLimitStatus } from './api';
 
 /**
  * メッセージタイプの定義
@@ -8,24 +16,56 @@ export type MessageType =
   | 'GET_SETTINGS'
   | 'SAVE_SETTINGS'
   | 'SETTINGS_UPDATED'
-  | 'GET_DATA'
-  | 'DATA_RESPONSE'
+  | 'SECTION_UPDATED'
   | 'SAVE_TOKEN'
   | 'VALIDATE_TOKEN'
-  | 'TOKEN_VALIDATED'
-  | 'ERROR'
-  | 'REFRESH_DATA';
+  | 'REFRESH_DATA'
+  | 'START_DEVICE_FLOW'
+  | 'POLL_DEVICE_FLOW'
+  | 'GET_TOKEN_INFO'
+  | 'GET_AUTH_STATUS'
+  | 'UNLOCK_TOKEN'
+  | 'LOCK_TOKEN'
+  | 'SET_SECRET_STORAGE'
+  | 'EXPORT_SECRETS'
+  | 'GET_CACHE_DIAGNOSTICS'
+  | 'PURGE_CACHE_ENTRY'
+  | 'DASHBOARD_VIEWED'
+  | 'REPOSITORY_OPENED'
+  | 'OPEN_OPTIONS';
 
 /**
  * データタイプの定義
  */
 export type DataType = 'repositories' | 'issues' | 'projects' | 'all';
 
+/**
+ * ダッシュボードのセクション
+ */
+export type DashboardSection = Exclude<DataType, 'all'>;
+
+/**
+ * ダッシュボードのセクション（既定の表示順）
+ */
+export const DASHBOARD_SECTIONS: DashboardSection[] = [
+  'repositories',
+  'issues',
+  'projects',
+];
+
+/**
+ * メッセージのプロトコルバージョン
+ * メッセージの形式を変更した時に上げる。拡張機能の更新後に、
+ * 再読み込みされていない古いページから届いたメッセージを検出するために使用する
+ */
+export const PROTOCOL_VERSION = 6;
+
 /**
  * 基本メッセージインターフェース
  */
 export interface BaseMessage {
   type: MessageType;
+  protocolVersion?: number; // 送信時に call() が付与する
 }
 
 /**
@@ -52,24 +92,66 @@ export interface SettingsUpdatedMessage extends BaseMessage {
 }
 
 /**
- * データ取得要求メッセージ
+ * セクション更新通知メッセージ
+ * 期限切れのセクションを更新した時に、ダッシュボードを表示中のすべてのタブに送る
  */
-export interface GetDataMessage extends BaseMessage {
-  type: 'GET_DATA';
-  dataType: DataType;
+export interface SectionUpdatedMessage extends BaseMessage {
+  type: 'SECTION_UPDATED';
+  section: DashboardSection;
+  data: DashboardData; // 該当するセクションの取得結果のみ
+  fetchedAt: number;
 }
 
 /**
- * データレスポンスメッセージ
+ * セクションごとのデータ
  */
-export interface DataResponseMessage extends BaseMessage {
-  type: 'DATA_RESPONSE';
-  dataType: DataType;
-  data: {
-    repositories?: Repository[];
-    issues?: Issue[];
-    projects?: Project[];
-  };
+export interface DashboardSectionData {
+  repositories: { organization: string; repositories: Repository[] }[];
+  issues: Issue[];
+  projects: Project[];
+}
+
+/**
+ * セクションの取得に失敗した理由
+ * auth: 認証エラー（401）
+ * forbidden: 権限不足・OrganizationのSSOの強制など（403）
+ * not_found: 対象が見つからない（404）
+ * rate_limit: レートリミットに達した
+ * api: その他のAPIエラー
+ * network: 通信エラー
+ * unknown: その他のエラー
+ */
+export type SectionErrorKind =
+  | 'auth'
+  | 'forbidden'
+  | 'not_found'
+  | 'rate_limit'
+  | 'api'
+  | 'network'
+  | 'unknown';
+
+/**
+ * セクションの取得エラー
+ */
+export interface SectionError {
+  kind: SectionErrorKind;
+  status: number | null; // HTTPステータス（APIエラー以外の場合 null）
+  message: string; // 表示用のメッセージ
+}
+
+/**
+ * セクションの取得結果
+ * 失敗したセクションがあっても、他のセクションのデータは返す
+ */
+export type SectionResult<T> = { data: T } | { error: SectionError };
+
+/**
+ * ダッシュボードに表示するデータ
+ */
+export interface DashboardData {
+  repositories?: SectionResult<DashboardSectionData['repositories']>;
+  issues?: SectionResult<DashboardSectionData['issues']>;
+  projects?: SectionResult<DashboardSectionData['projects']>;
 }
 
 /**
@@ -88,21 +170,128 @@ export interface ValidateTokenMessage extends BaseMessage {
 }
 
 /**
- * トークン検証結果メッセージ
+ * トークン検証結果
  */
-export interface TokenValidatedMessage extends BaseMessage {
-  type: 'TOKEN_VALIDATED';
+export interface TokenValidationResult {
   valid: boolean;
   message?: string;
+  user?: User;
+  tokenInfo?: TokenInfo;
+  capabilities?: SectionCapability[];
 }
 
 /**
- * エラーメッセージ
+ * トークンの権限・有効期限の取得要求メッセージ
  */
-export interface ErrorMessage extends BaseMessage {
-  type: 'ERROR';
-  error: string;
-  details?: unknown;
+export interface GetTokenInfoMessage extends BaseMessage {
+  type: 'GET_TOKEN_INFO';
+}
+
+/**
+ * OAuthデバイスフロー開始要求メッセージ
+ */
+export interface StartDeviceFlowMessage extends BaseMessage {
+  type: 'START_DEVICE_FLOW';
+}
+
+/**
+ * OAuthデバイスフローのポーリング要求メッセージ
+ */
+export interface PollDeviceFlowMessage extends BaseMessage {
+  type: 'POLL_DEVICE_FLOW';
+  deviceCode: string;
+  interval: number; // 現在のポーリング間隔（秒）
+}
+
+/**
+ * 認証状態（トークンの有無・ロック状態）の取得要求メッセージ
+ */
+export interface GetAuthStatusMessage extends BaseMessage {
+  type: 'GET_AUTH_STATUS';
+}
+
+/**
+ * 暗号化されたトークンのロック解除要求メッセージ
+ */
+export interface UnlockTokenMessage extends BaseMessage {
+  type: 'UNLOCK_TOKEN';
+  passphrase: string;
+}
+
+/**
+ * トークンのロック要求メッセージ
+ */
+export interface LockTokenMessage extends BaseMessage {
+  type: 'LOCK_TOKEN';
+}
+
+/**
+ * トークンの保存方法の変更要求メッセージ
+ */
+export interface SetSecretStorageMessage extends BaseMessage {
+  type: 'SET_SECRET_STORAGE';
+  mode: SecretStorageMode;
+  passphrase?: string; // 暗号化する場合のみ
+}
+
+/**
+ * エクスポート用のシークレット取得要求メッセージ
+ * ユーザーがトークンを含めることを選んだ場合のみ送信する
+ */
+export interface ExportSecretsMessage extends BaseMessage {
+  type: 'EXPORT_SECRETS';
+}
+
+/**
+ * キャッシュの診断情報の取得要求メッセージ
+ */
+export interface GetCacheDiagnosticsMessage extends BaseMessage {
+  type: 'GET_CACHE_DIAGNOSTICS';
+}
+
+/**
+ * キャッシュエントリの削除要求メッセージ
+ */
+export interface PurgeCacheEntryMessage extends BaseMessage {
+  type: 'PURGE_CACHE_ENTRY';
+  key: string;
+}
+
+/**
+ * ダッシュボード表示通知メッセージ
+ * アイコンのバッジの件数をクリアする
+ */
+export interface DashboardViewedMessage extends BaseMessage {
+  type: 'DASHBOARD_VIEWED';
+}
+
+/**
+ * リポジトリを開いた通知メッセージ
+ * 削除された・アクセスできなくなったリポジトリであれば、一覧を全件取得し直す
+ */
+export interface RepositoryOpenedMessage extends BaseMessage {
+  type: 'REPOSITORY_OPENED';
+  fullName: string; // owner/repo
+}
+
+/**
+ * 設定画面を開く要求メッセージ
+ * Content Scriptからは chrome.runtime.openOptionsPage を呼べないため使用する
+ */
+export interface OpenOptionsMessage extends BaseMessage {
+  type: 'OPEN_OPTIONS';
+}
+
+/**
+ * キャッシュの診断情報
+ */
+export interface CacheDiagnostics {
+  entries: CacheEntryDiagnostics[];
+  totals: CacheStats; // 削除済みのエントリも含めた合計
+  statsSince: number; // 集計を開始した時刻（ブラウザの再起動でリセット）
+  totalSize: number; // バイト数（概算）
+  storageBudget: number; // 保存容量の上限（バイト）
+  rateLimit: RateLimitStatus | null;
 }
 
 /**
@@ -113,17 +302,155 @@ export interface RefreshDataMessage extends BaseMessage {
 }
 
 /**
- * すべてのメッセージ型のユニオン型
+ * Service Workerが処理する要求メッセージと、応答データの型の対応
+ */
+export interface RpcMap {
+  GET_SETTINGS: { request: GetSettingsMessage; response: Settings };
+  SAVE_SETTINGS: {
+    request: SaveSettingsMessage;
+    response: { success: boolean };
+  };
+  SAVE_TOKEN: { request: SaveTokenMessage; response: { success: boolean } };
+  VALIDATE_TOKEN: {
+    request: ValidateTokenMessage;
+    response: TokenValidationResult;
+  };
+  GET_TOKEN_INFO: {
+    request: GetTokenInfoMessage;
+    response: {
+      tokenInfo: TokenInfo;
+      capabilities: SectionCapability[];
+    } | null; // トークンが未設定の場合 null
+  };
+  GET_AUTH_STATUS: { request: GetAuthStatusMessage; response: AuthStatus };
+  UNLOCK_TOKEN: { request: UnlockTokenMessage; response: AuthStatus };
+  LOCK_TOKEN: { request: LockTokenMessage; response: AuthStatus };
+  SET_SECRET_STORAGE: {
+    request: SetSecretStorageMessage;
+    response: AuthStatus;
+  };
+  EXPORT_SECRETS: {
+    request: ExportSecretsMessage;
+    response: { token: string };
+  };
+  START_DEVICE_FLOW: {
+    request: StartDeviceFlowMessage;
+    response: DeviceCodeInfo;
+  };
+  POLL_DEVICE_FLOW: {
+    request: PollDeviceFlowMessage;
+    response: DeviceFlowPollResult;
+  };
+  REFRESH_DATA: {
+    request: RefreshDataMessage;
+    response: { success: boolean; message: string };
+  };
+  GET_CACHE_DIAGNOSTICS: {
+    request: GetCacheDiagnosticsMessage;
+    response: CacheDiagnostics;
+  };
+  PURGE_CACHE_ENTRY: {
+    request: PurgeCacheEntryMessage;
+    response: { success: boolean };
+  };
+  DASHBOARD_VIEWED: {
+    request: DashboardViewedMessage;
+    response: { success: boolean };
+  };
+  REPOSITORY_OPENED: {
+    request: RepositoryOpenedMessage;
+    response: { success: boolean };
+  };
+  OPEN_OPTIONS: { request: OpenOptionsMessage; response: { success: boolean } };
+}
+
+/**
+ * Service Workerが処理する要求の種類
  */
-export type Message =
-  | GetSettingsMessage
-  | SaveSettingsMessage
-  | SettingsUpdatedMessage
-  | GetDataMessage
-  | DataResponseMessage
-  | SaveTokenMessage
-  | ValidateTokenMessage
-  | TokenValidatedMessage
-  | ErrorMessage
-  | RefreshDataMessage;
+export type RpcMethod = keyof RpcMap;
 
+/**
+ * 要求メッセージ
+ */
+export type RpcRequest<M extends RpcMethod = RpcMethod> = RpcMap[M]['request'];
+
+/**
+ * 応答データ
+ */
+export type RpcResponseData<M extends RpcMethod> = RpcMap[M]['response'];
+
+/**
+ * 要求が失敗した理由
+ * PROTOCOL_MISMATCH: 拡張機能が更新され、送信元のページが古いまま
+ * INVALID_REQUEST: 要求メッセージの形式が不正
+ * HANDLER_ERROR: 処理中にエラーが発生した
+ */
+export type RpcErrorCode =
+  'PROTOCOL_MISMATCH' | 'INVALID_REQUEST' | 'HANDLER_ERROR';
+
+/**
+ * 応答メッセージ
+ */
+export type RpcResponse<M extends RpcMethod> =
+  | { success: true; data: RpcResponseData<M> }
+  | { success: false; error: string; code: RpcErrorCode };
+
+/**
+ * Service Workerから各タブに送る通知メッセージ
+ */
+export type BroadcastMessage = SettingsUpdatedMessage | SectionUpdatedMessage;
+
+/**
+ * ダッシュボードのデータをセクションごとに受け取るPortの名前
+ * Content Script・Popupから接続し、切断するとService Workerでの取得もキャンセルされる
+ */
+export const DASHBOARD_PORT_NAME = 'dashboard-data';
+
+/**
+ * Port: データ取得開始要求（Content Script・Popup → Service Worker）
+ */
+export interface LoadDashboardMessage {
+  type: 'LOAD_DASHBOARD';
+  protocolVersion: number;
+}
+
+/**
+ * Port: セクションのデータ（Service Worker → Content Script・Popup）
+ * 期限切れのキャッシュを送った場合は、更新後に同じセクションをもう一度送る
+ */
+export interface SectionDataMessage {
+  type: 'SECTION_DATA';
+  section: DashboardSection;
+  data: DashboardData; // 該当するセクションの取得結果のみ
+  fetchedAt: number;
+  stale: boolean; // 期限切れのキャッシュ（この後に更新したデータを送る）
+}
+
+/**
+ * Port: データ取得のエラー（Service Worker → Content Script・Popup）
+ */
+export interface DashboardErrorMessage {
+  type: 'DASHBOARD_ERROR';
+  error: string;
+  code: RpcErrorCode;
+}
+
+/**
+ * Port: すべてのセクションの送信完了（Service Worker → Content Script・Popup）
+ */
+export interface DashboardCompleteMessage {
+  type: 'DASHBOARD_COMPLETE';
+  rateLimit: RateLimitStatus | null;
+  tokenExpiresAt: number | null;
+}
+
+/**
+ * Service WorkerからPortで送るメッセージ
+ */
+export type DashboardPortMessage =
+  SectionDataMessage | DashboardErrorMessage | DashboardCompleteMessage;
+
+/**
+ * すべてのメッセージ型のユニオン型
+ */
+export type Message = RpcRequest | BroadcastMessage;
@@ -7,11 +7,62 @@ export interface LayoutItem {
   order: number;
 }
 
+/**
+ * キャッシュするデータの種類
+ */
+export type CacheDataType = 'repositories' | 'issues' | 'projects';
+
 /**
  * キャッシュ設定の定義
  */
 export interface CacheSettings {
-  ttl: number; // Time to live in seconds
+  ttl: Record<CacheDataType, number>; // Time to live in seconds（0の場合はキャッシュしない）
+  maxStaleAge: number; // 期限切れのデータを更新中に表示する上限（秒、0の場合は表示しない）
+  storageBudget: number; // キャッシュ全体の保存容量の上限（バイト）
+}
+
+/**
+ * バックグラウンド更新の設定
+ * ダッシュボードを開いた時にキャッシュから表示できるよう、定期的にデータを取得する
+ */
+export interface PrefetchSettings {
+  enabled: boolean;
+  interval: number; // 更新間隔（分）
+}
+
+/**
+ * 拡張機能アイコンのバッジに表示する件数の設定
+ */
+export interface BadgeSettings {
+  mentions: boolean; // 前回ダッシュボードを開いてから更新された、メンションされたIssue
+  reviewRequests: boolean; // 前回ダッシュボードを開いてから更新された、レビュー依頼
+}
+
+/**
+ * 通知しない時間帯（HH:MM、終了が開始より前の場合は日をまたぐ）
+ */
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+/**
+ * デスクトップ通知の設定
+ */
+export interface NotificationSettings {
+  enabled: boolean;
+  mutedRepositories: string[]; // owner/repo
+  mutedOrganizations: string[]; // Organization・ユーザー名
+  quietHours: QuietHours;
+}
+
+/**
+ * 条件付きリクエスト用の検証子の定義
+ */
+export interface CacheValidators {
+  etag?: string;
+  lastModified?: string;
 }
 
 /**
@@ -21,6 +72,74 @@ export interface CacheEntry<T = unknown> {
   data: T;
   timestamp: number;
   ttl: number;
+  validators?: CacheValidators; // ETag / Last-Modified
+}
+
+/**
+ * キャッシュの保存先
+ * local: chrome.storage.local、indexedDB: サイズの大きいデータ
+ */
+export type CacheStore = 'local' | 'indexedDB';
+
+/**
+ * キャッシュインデックスの要素（容量管理用）
+ */
+export interface CacheIndexRecord {
+  size: number; // バイト数（概算）
+  lastAccess: number; // 最後に使用した時刻（追い出す順番の判定に使用）
+  store: CacheStore;
+}
+
+/**
+ * キャッシュの参照回数
+ * hits: 有効なデータを返した、stale: 期限切れのデータを返した、misses: データがなかった
+ */
+export interface CacheStats {
+  hits: number;
+  stale: number;
+  misses: number;
+}
+
+/**
+ * キャッシュエントリの診断情報（設定画面での表示用）
+ */
+export interface CacheEntryDiagnostics {
+  key: string;
+  store: CacheStore | 'memory'; // memory: 容量の上限を超えたためメモリにのみ保持
+  size: number; // バイト数（概算）
+  age: number; // 秒
+  ttl: number; // 秒
+  expired: boolean;
+  stats: CacheStats;
+}
+
+/**
+ * GitHubホストプロファイルの定義
+ * GitHub.com または GitHub Enterprise Server の接続先
+ */
+export interface HostProfile {
+  id: string;
+  name: string;
+  webUrl: string; // 例: https://ghe.example.com
+  apiUrl: string; // 例: https://ghe.example.com/api/v3
+}
+
+/**
+ * GitHub.com のホストプロファイル（削除不可）
+ */
+export const GITHUB_COM_HOST: HostProfile = {
+  id: 'github.com',
+  name: 'GitHub.com',
+  webUrl: 'https://github.com',
+  apiUrl: 'https://api.github.com',
+};
+
+/**
+ * OAuthデバイスフローの設定
+ */
+export interface OAuthSettings {
+  clientId: string; // OAuth App / GitHub App のClient ID
+  baseUrl: string; // OAuthサーバーのURL（空の場合は使用中のホストのWeb URL）
 }
 
 /**
@@ -28,14 +147,63 @@ export interface CacheEntry<T = unknown> {
  */
 export interface Settings {
   layout: LayoutItem[];
-  token: string;
-  cache: {
-    repositories?: CacheEntry;
-    issues?: CacheEntry;
-    projects?: CacheEntry;
-  };
+  hosts: HostProfile[];
+  activeHostId: string;
+  oauth: OAuthSettings;
+  cache: CacheSettings;
+  prefetch: PrefetchSettings;
+  badge: BadgeSettings;
+  notifications: NotificationSettings;
 }
 
+/**
+ * エクスポートファイルの形式
+ * トークンは明示的に含めることを選んだ場合のみ出力する
+ */
+export interface SettingsExport extends Settings {
+  token?: string;
+}
+
+/**
+ * デフォルトのキャッシュTTL（5分）
+ */
+export const DEFAULT_CACHE_TTL = 5 * 60; // 5 minutes in seconds
+
+/**
+ * キャッシュTTLの上限（1日）
+ */
+export const MAX_CACHE_TTL = 24 * 60 * 60;
+
+/**
+ * 期限切れのデータを表示する上限の最大値（7日）
+ */
+export const MAX_STALE_AGE = 7 * 24 * 60 * 60;
+
+/**
+ * キャッシュの保存容量の上限の範囲（1MB〜100MB）
+ */
+export const MIN_STORAGE_BUDGET = 1024 * 1024;
+export const MAX_STORAGE_BUDGET = 100 * 1024 * 1024;
+
+/**
+ * バックグラウンド更新の間隔の範囲（5分〜1日）
+ */
+export const MIN_PREFETCH_INTERVAL = 5;
+export const MAX_PREFETCH_INTERVAL = 24 * 60;
+
+/**
+ * デフォルトのキャッシュ設定
+ */
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = {
+  ttl: {
+    repositories: DEFAULT_CACHE_TTL,
+    issues: DEFAULT_CACHE_TTL,
+    projects: DEFAULT_CACHE_TTL,
+  },
+  maxStaleAge: 24 * 60 * 60,
+  storageBudget: 8 * 1024 * 1024, // chrome.storage.local の上限（10MB）に余裕を持たせる
+};
+
 /**
  * デフォルト設定
  */
@@ -45,12 +213,29 @@ export const DEFAULT_SETTINGS: Settings = {
     { id: 'issues', enabled: true, order: 1 },
     { id: 'projects', enabled: true, order: 2 },
   ],
-  token: '',
-  cache: {},
+  hosts: [GITHUB_COM_HOST],
+  activeHostId: GITHUB_COM_HOST.id,
+  oauth: {
+    clientId: '',
+    baseUrl: '',
+  },
+  cache: DEFAULT_CACHE_SETTINGS,
+  prefetch: {
+    enabled: true,
+    interval: 30,
+  },
+  badge: {
+    mentions: true,
+    reviewRequests: true,
+  },
+  notifications: {
+    enabled: true,
+    mutedRepositories: [],
+    mutedOrganizations: [],
+    quietHours: {
+      enabled: false,
+      start: '22:00',
+      end: '08:00',
+    },
+  },
 };
-
-/**
- * デフォルトのキャッシュTTL（5分）
- */
-export const DEFAULT_CACHE_TTL = 5 * 60; // 5 minutes in seconds
-
@@ -0,0 +1,80 @@
+import {
+  Settings,
+  CacheSettings,
+  CacheDataType,
+  DEFAULT_CACHE_SETTINGS,
+} from '../types/settings';
+
+/**
+ * キャッシュポリシーのユーティリティ
+ * 設定のデータタイプごとのTTLと、期限切れデータの表示上限を扱う
+ */
+
+/**
+ * キャッシュの鮮度
+ * fresh: 有効期限内、stale: 期限切れだが更新中に表示できる、
+ * expired: 表示できない（取得し直すまで待つ）
+ */
+export type CacheFreshness = 'fresh' | 'stale' | 'expired';
+
+/**
+ * キャッシュ設定を取得
+ * 古い設定データには存在しない項目をデフォルト値で補い、
+ * 設定できなくなったデータタイプのTTLは取り除く
+ * @param settings 設定データ
+ * @returns CacheSettings
+ */
+export function getCacheSettings(settings: Settings): CacheSettings {
+  const cache: Partial<CacheSettings> = settings.cache || {};
+  const ttl = { ...DEFAULT_CACHE_SETTINGS.ttl };
+  (Object.keys(ttl) as CacheDataType[]).forEach((dataType) => {
+    ttl[dataType] = cache.ttl?.[dataType] ?? ttl[dataType];
+  });
+
+  return {
+    ttl,
+    maxStaleAge: cache.maxStaleAge ?? DEFAULT_CACHE_SETTINGS.maxStaleAge,
+    storageBudget: cache.storageBudget ?? DEFAULT_CACHE_SETTINGS.storageBudget,
+  };
+}
+
+/**
+ * データタイプのキャッシュTTLを取得
+ * @param settings 設定データ
+ * @param dataType データタイプ
+ * @returns TTL（秒、0の場合はキャッシュしない）
+ */
+export function getCacheTtl(
+  settings: Settings,
+  dataType: CacheDataType
+): number {
+  return getCacheSettings(settings).ttl[dataType];
+}
+
+/**
+ * キャッシュの鮮度を判定
+ * @param settings 設定データ
+ * @param dataType データタイプ
+ * @param timestamp キャッシュの保存時刻（ミリ秒）
+ * @param now 現在時刻（ミリ秒）
+ * @returns CacheFreshness
+ */
+export function getCacheFreshness(
+  settings: Settings,
+  dataType: CacheDataType,
+  timestamp: number,
+  now: number = Date.now()
+): CacheFreshness {
+  const { ttl, maxStaleAge } = getCacheSettings(settings);
+  const age = now - timestamp;
+
+  if (ttl[dataType] > 0 && age <= ttl[dataType] * 1000) {
+    return 'fresh';
+  }
+
+  if (ttl[dataType] > 0 && age <= maxStaleAge * 1000) {
+    return 'stale';
+  }
+
+  return 'expired';
+}
@@ -0,0 +1,95 @@
+/**
+ * あいまい検索のユーティリティ
+ * 入力した文字が順番通りに含まれていれば一致とみなし、
+ * 連続した一致や単語の先頭での一致ほど高いスコアを付ける
+ */
+
+/**
+ * あいまい検索の結果
+ */
+export interface FuzzyMatch {
+  score: number;
+  indices: number[]; // 一致した文字の位置（ハイライト表示用）
+}
+
+/**
+ * 単語の区切りとみなす文字
+ */
+const WORD_SEPARATORS = new Set(['/', '-', '_', '.', ' ', '#']);
+
+/**
+ * スコアの加点
+ */
+const SCORE_MATCH = 1;
+const SCORE_CONSECUTIVE = 4;
+const SCORE_WORD_START = 3;
+const SCORE_TEXT_START = 6;
+
+/**
+ * テキストがクエリにあいまい一致するか判定
+ * 大文字・小文字は区別しない
+ * @param query 検索クエリ
+ * @param text 対象のテキスト
+ * @returns FuzzyMatch、一致しない場合 null
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = query.toLowerCase().replace(/\s+/g, '');
+  const haystack = text.toLowerCase();
+
+  if (!needle) {
+    return { score: 0, indices: [] };
+  }
+
+  const indices: number[] = [];
+  let score = 0;
+  let position = 0;
+
+  for (const char of needle) {
+    const index = haystack.indexOf(char, position);
+    if (index === -1) {
+      return null;
+    }
+
+    score += SCORE_MATCH;
+    if (index === 0) {
+      score += SCORE_TEXT_START;
+    } else if (WORD_SEPARATORS.has(haystack[index - 1])) {
+      score += SCORE_WORD_START;
+    }
+    if (indices.length > 0 && indices[indices.length - 1] === index - 1) {
+      score += SCORE_CONSECUTIVE;
+    }
+
+    indices.push(index);
+    position = index + 1;
+  }
+
+  // 同じスコアなら短いテキストを優先する
+  score -= haystack.length / 100;
+
+  return { score, indices };
+}
+
+/**
+ * 一覧をあいまい検索し、スコアの高い順に並べる
+ * @param items 検索対象の一覧
+ * @param query 検索クエリ
+ * @param getText 検索対象のテキストを取り出す関数
+ * @param limit 返す件数の上限
+ * @returns 一致した要素と検索結果の配列
+ */
+export function fuzzyFilter<T>(
+  items: T[],
+  query: string,
+  getText: (item: T) => string,
+  limit = Infinity
+): { item: T; match: FuzzyMatch }[] {
+  return items
+    .map((item) => ({ item, match: fuzzyMatch(query, getText(item)) }))
+    .filter(
+      (result): result is { item: T; match: FuzzyMatch } =>
+        result.match !== null
+    )
+    .sort((a, b) => b.match.score - a.match.score)
+    .slice(0, limit);
+}
@@ -0,0 +1,87 @@
+import { Settings, HostProfile, GITHUB_COM_HOST } from '../types/settings';
+
+/**
+ * GitHubホストプロファイルのユーティリティ
+ * GitHub.com / GitHub Enterprise Server のURLを扱う
+ */
+
+/**
+ * 使用中のホストプロファイルを取得
+ * @param settings 設定データ
+ * @returns HostProfile（見つからない場合はGitHub.com）
+ */
+export function getActiveHost(settings: Settings): HostProfile {
+  const hosts = settings.hosts || [];
+  return (
+    hosts.find((host) => host.id === settings.activeHostId) || GITHUB_COM_HOST
+  );
+}
+
+/**
+ * 組み込みのGitHub.comプロファイルかどうか
+ * @param host ホストプロファイル
+ * @returns GitHub.comの場合true
+ */
+export function isBuiltInHost(host: HostProfile): boolean {
+  return host.id === GITHUB_COM_HOST.id;
+}
+
+/**
+ * URL末尾のスラッシュを取り除く
+ * @param url URL
+ * @returns 正規化されたURL
+ */
+export function normalizeUrl(url: string): string {
+  return url.trim().replace(/\/+$/, '');
+}
+
+/**
+ * ダッシュボードページのURLパターンを取得
+ * manifestの content_scripts.matches と同じ形式
+ * @param host ホストプロファイル
+ * @returns URLパターンの配列
+ */
+export function getDashboardUrlPatterns(host: HostProfile): string[] {
+  const webUrl = normalizeUrl(host.webUrl);
+  return [`${webUrl}/`, `${webUrl}/?*`];
+}
+
+/**
+ * ホスト権限として要求するオリジンパターンを取得
+ * @param host ホストプロファイル
+ * @returns オリジンパターンの配列（例: https://ghe.example.com/*）
+ */
+export function getOriginPatterns(host: HostProfile): string[] {
+  const origins = [host.webUrl, host.apiUrl].map(
+    (url) => `${new URL(url).origin}/*`
+  );
+  return Array.from(new Set(origins));
+}
+
+/**
+ * URLがホストのダッシュボードページかどうか確認
+ * @param url 確認するURL
+ * @param host ホストプロファイル
+ * @returns ダッシュボードページの場合true
+ */
+export function isDashboardUrl(url: string, host: HostProfile): boolean {
+  const webUrl = normalizeUrl(host.webUrl);
+  return (
+    url === `${webUrl}/` || url === webUrl || url.startsWith(`${webUrl}/?`)
+  );
+}
+
+/**
+ * API URLからGraphQLエンドポイントのURLを取得
+ * GitHub.com: https://api.github.com/graphql
+ * GHES: https://ghe.example.com/api/v3 → https://ghe.example.com/api/graphql
+ * @param apiUrl REST APIのベースURL
+ * @returns GraphQLエンドポイントのURL
+ */
+export function getGraphQLUrl(apiUrl: string): string {
+  const base = normalizeUrl(apiUrl);
+  if (base.endsWith('/api/v3')) {
+    return `${base.slice(0, -'/v3'.length)}/graphql`;
+  }
+  return `${base}/graphql`;
+}
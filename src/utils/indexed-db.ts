@@ -0,0 +1,135 @@
+/**
+ * IndexedDBを使用したデータの保存・取得機能
+ * chrome.storage.local（上限10MB）に収まりにくい大きなデータの保存に使用する
+ */
+
+const DB_NAME = 'github-dashboard-customizer';
+const DB_VERSION = 1;
+const STORE_NAME = 'cache';
+
+/**
+ * 開いているデータベース（接続は使い回す）
+ */
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * データベースを開く
+ * @returns Promise<IDBDatabase>
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        db.createObjectStore(STORE_NAME);
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // 他のコンテキストでバージョンが上がった場合などは次回開き直す
+      db.onclose = () => {
+        dbPromise = null;
+      };
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+/**
+ * オブジェクトストアに対して1つの操作を行う
+ * @param mode トランザクションのモード
+ * @param operation 実行する操作
+ * @returns Promise<T>
+ */
+async function runRequest<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error || request.error);
+    transaction.onabort = () => reject(transaction.error || request.error);
+  });
+}
+
+/**
+ * 特定のキーのデータを保存する
+ * @param key 保存するキー
+ * @param data 保存するデータ
+ * @returns Promise<void>
+ */
+export async function saveIdbData<T>(key: string, data: T): Promise<void> {
+  try {
+    await runRequest('readwrite', (store) => store.put(data, key));
+  } catch (error) {
+    console.error(`Failed to save IndexedDB data for key "${key}":`, error);
+    throw new Error(`データの保存に失敗しました: ${key}`);
+  }
+}
+
+/**
+ * 特定のキーのデータを取得する
+ * @param key 取得するキー
+ * @returns Promise<T | null>
+ */
+export async function getIdbData<T>(key: string): Promise<T | null> {
+  try {
+    const data = await runRequest<T | undefined>('readonly', (store) =>
+      store.get(key)
+    );
+    return data ?? null;
+  } catch (error) {
+    console.error(`Failed to get IndexedDB data for key "${key}":`, error);
+    return null;
+  }
+}
+
+/**
+ * 特定のキーのデータを削除する
+ * @param key 削除するキー
+ * @returns Promise<void>
+ */
+export async function removeIdbData(key: string): Promise<void> {
+  try {
+    await runRequest('readwrite', (store) => store.delete(key));
+  } catch (error) {
+    console.error(`Failed to remove IndexedDB data for key "${key}":`, error);
+    throw new Error(`データの削除に失敗しました: ${key}`);
+  }
+}
+
+/**
+ * すべてのデータを削除する
+ * @returns Promise<void>
+ */
+export async function clearIdbData(): Promise<void> {
+  try {
+    await runRequest('readwrite', (store) => store.clear());
+  } catch (error) {
+    console.error('Failed to clear IndexedDB data:', error);
+    throw new Error('データの削除に失敗しました');
+  }
+}
@@ -0,0 +1,107 @@
+import {
+  DASHBOARD_PORT_NAME,
+  LoadDashboardMessage,
+  PROTOCOL_VERSION,
+  RpcMethod,
+  RpcRequest,
+  RpcResponse,
+} from '../types/messages';
+
+/**
+ * Service Workerへの要求の送信
+ * Content Script・Options Page・Popupから使用する
+ */
+
+/**
+ * 拡張機能の更新後、再読み込みされていないページで表示するメッセージ
+ */
+export const STALE_PAGE_MESSAGE =
+  '拡張機能が更新されました。ページを再読み込みしてください';
+
+/**
+ * Service Workerに要求を送信し、応答を受け取る
+ * 拡張機能の更新でページが古くなっている場合は、例外ではなく
+ * PROTOCOL_MISMATCH の応答を返す
+ * @param message 要求メッセージ
+ * @returns 応答（success が true の場合 data、false の場合 error）
+ */
+export async function call<M extends RpcMethod>(
+  message: RpcRequest<M> & { type: M }
+): Promise<RpcResponse<M>> {
+  // 拡張機能が更新・無効化されると、古いContent Scriptからは送信できない
+  if (!chrome.runtime?.id) {
+    return stalePageResponse();
+  }
+
+  try {
+    const response: RpcResponse<M> | undefined =
+      await chrome.runtime.sendMessage({
+        ...message,
+        protocolVersion: PROTOCOL_VERSION,
+      });
+
+    if (!response) {
+      return {
+        success: false,
+        error: 'Service Workerから応答がありません',
+        code: 'HANDLER_ERROR',
+      };
+    }
+
+    return response;
+  } catch (error) {
+    if (isContextInvalidatedError(error)) {
+      return stalePageResponse();
+    }
+    throw error;
+  }
+}
+
+/**
+ * ダッシュボードのデータを受け取るPortを開き、取得を開始する
+ * 拡張機能の更新でページが古くなっている場合は null を返す
+ * @returns Port、接続できない場合 null
+ */
+export function connectDashboardPort(): chrome.runtime.Port | null {
+  if (!chrome.runtime?.id) {
+    return null;
+  }
+
+  try {
+    const port = chrome.runtime.connect({ name: DASHBOARD_PORT_NAME });
+    const message: LoadDashboardMessage = {
+      type: 'LOAD_DASHBOARD',
+      protocolVersion: PROTOCOL_VERSION,
+    };
+    port.postMessage(message);
+    return port;
+  } catch (error) {
+    if (isContextInvalidatedError(error)) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * 拡張機能の更新・無効化で送信できなくなった場合のエラーか確認
+ * @param error 発生したエラー
+ * @returns 該当する場合true
+ */
+function isContextInvalidatedError(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    error.message.includes('Extension context invalidated')
+  );
+}
+
+/**
+ * ページが古くなっている場合の応答
+ */
+function stalePageResponse<M extends RpcMethod>(): RpcResponse<M> {
+  return {
+    success: false,
+    error: STALE_PAGE_MESSAGE,
+    code: 'PROTOCOL_MISMATCH',
+  };
+}
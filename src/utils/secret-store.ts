@@ -0,0 +1,478 @@
+import { AuthStatus, SecretStorageMode } from '../types/auth';
+
+/**
+ * シークレットストア
+ * トークンなどの秘密情報を設定とは別のキーに保存する
+ *
+ * - local: chrome.storage.local に保存
+ * - session: chrome.storage.session に保存（ブラウザを閉じると消える）
+ * - encrypted: パスフレーズから導出した鍵（PBKDF2）でAES-GCM暗号化して
+ *   chrome.storage.local に保存。ロック解除中は復号結果を chrome.storage.session に保持する
+ */
+
+const SECRET_STORE_KEY = 'secret_store';
+const SECRETS_KEY = 'secrets';
+const SESSION_CRYPTO_KEY = 'secret_key';
+const PBKDF2_ITERATIONS = 600000;
+const SALT_LENGTH = 16;
+const IV_LENGTH = 12;
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * シークレットの名前
+ */
+export type SecretName = 'token' | 'refreshToken';
+
+/**
+ * シークレットの一覧
+ */
+export type Secrets = Partial<Record<SecretName, string>>;
+
+/**
+ * 暗号化されたシークレット（Base64）
+ */
+interface EncryptedSecrets {
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+/**
+ * シークレットストアの状態（chrome.storage.local に保存）
+ */
+interface SecretStoreState {
+  mode: SecretStorageMode;
+  encrypted?: EncryptedSecrets;
+}
+
+/**
+ * ロックされている場合のエラー
+ */
+export class SecretStoreLockedError extends Error {
+  constructor(
+    message = 'トークンがロックされています。設定画面でパスフレーズを入力してください'
+  ) {
+    super(message);
+    this.name = 'SecretStoreLockedError';
+  }
+}
+
+/**
+ * 旧形式（設定内のトークン）からの移行処理
+ */
+let migrationPromise: Promise<void> | null = null;
+
+/**
+ * シークレットを取得する
+ * @param name シークレットの名前
+ * @returns Promise<string>（未設定またはロック中の場合は空文字）
+ */
+export async function getSecret(name: SecretName): Promise<string> {
+  await migrateSecrets();
+  const secrets = await readSecrets(await getState());
+  return secrets?.[name] || '';
+}
+
+/**
+ * シークレットを更新する（空文字を指定した項目は削除）
+ * @param updates 更新するシークレット
+ * @returns Promise<void>
+ */
+export async function setSecrets(updates: Secrets): Promise<void> {
+  await migrateSecrets();
+  const state = await getState();
+  const current = await readSecrets(state);
+  if (!current) {
+    throw new SecretStoreLockedError();
+  }
+
+  await writeSecrets(state, mergeSecrets(current, updates));
+}
+
+/**
+ * トークンを保存する
+ * @param token 保存するトークン
+ * @returns Promise<void>
+ */
+export async function saveToken(token: string): Promise<void> {
+  try {
+    await setSecrets({ token });
+  } catch (error) {
+    console.error('Failed to save token:', error);
+    if (error instanceof SecretStoreLockedError) {
+      throw error;
+    }
+    throw new Error('トークンの保存に失敗しました');
+  }
+}
+
+/**
+ * トークンを取得する
+ * @returns Promise<string>
+ */
+export async function getToken(): Promise<string> {
+  try {
+    return await getSecret('token');
+  } catch (error) {
+    console.error('Failed to get token:', error);
+    return '';
+  }
+}
+
+/**
+ * 認証状態を取得する
+ * @returns Promise<AuthStatus>
+ */
+export async function getAuthStatus(): Promise<AuthStatus> {
+  await migrateSecrets();
+  const state = await getState();
+  const secrets = await readSecrets(state);
+
+  if (!secrets) {
+    return { mode: state.mode, hasToken: true, locked: true };
+  }
+
+  return { mode: state.mode, hasToken: !!secrets.token, locked: false };
+}
+
+/**
+ * 保存方法を変更する
+ * 現在のシークレットは新しい保存先に移し、元の保存先からは削除する
+ * @param mode 新しい保存方法
+ * @param passphrase 暗号化する場合のパスフレーズ
+ * @returns Promise<void>
+ */
+export async function configureSecretStore(
+  mode: SecretStorageMode,
+  passphrase?: string
+): Promise<void> {
+  await migrateSecrets();
+  const current = await readSecrets(await getState());
+  if (!current) {
+    throw new SecretStoreLockedError(
+      '保存方法を変更する前にロックを解除してください'
+    );
+  }
+
+  let state: SecretStoreState = { mode };
+
+  if (mode === 'encrypted') {
+    if (!passphrase || passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(
+        `パスフレーズは${MIN_PASSPHRASE_LENGTH}文字以上で入力してください`
+      );
+    }
+
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH));
+    const key = await deriveKey(passphrase, salt);
+    await storeSessionKey(key);
+    state = {
+      mode,
+      encrypted: { salt: toBase64(salt), iv: '', ciphertext: '' },
+    };
+  }
+
+  // 以前の保存先を削除
+  await chrome.storage.local.remove(SECRETS_KEY);
+  await chrome.storage.session.remove(SECRETS_KEY);
+  if (mode !== 'encrypted') {
+    await chrome.storage.session.remove(SESSION_CRYPTO_KEY);
+  }
+
+  await writeSecrets(state, current);
+}
+
+/**
+ * 暗号化されたシークレットのロックを解除する
+ * @param passphrase パスフレーズ
+ * @returns Promise<void>
+ */
+export async function unlockSecretStore(passphrase: string): Promise<void> {
+  await migrateSecrets();
+  const state = await getState();
+  if (state.mode !== 'encrypted' || !state.encrypted) {
+    return;
+  }
+
+  const key = await deriveKey(passphrase, fromBase64(state.encrypted.salt));
+
+  let secrets: Secrets;
+  try {
+    secrets = await decryptSecrets(state.encrypted, key);
+  } catch (error) {
+    console.error('Failed to decrypt secrets:', error);
+    throw new Error('パスフレーズが正しくありません');
+  }
+
+  await storeSessionKey(key);
+  await chrome.storage.session.set({ [SECRETS_KEY]: secrets });
+}
+
+/**
+ * ロックする（暗号化している場合のみ有効）
+ * @returns Promise<void>
+ */
+export async function lockSecretStore(): Promise<void> {
+  const state = await getState();
+  if (state.mode !== 'encrypted') {
+    return;
+  }
+
+  await chrome.storage.session.remove([SECRETS_KEY, SESSION_CRYPTO_KEY]);
+}
+
+/**
+ * 旧形式のデータを移行する（初回のみ実行）
+ * シークレットの読み書き時にも自動で実行される
+ * @returns Promise<void>
+ */
+export function migrateSecrets(): Promise<void> {
+  if (!migrationPromise) {
+    migrationPromise = migrateLegacySecrets().catch((error) => {
+      console.error('Failed to migrate secrets:', error);
+    });
+  }
+  return migrationPromise;
+}
+
+/**
+ * 設定内のトークンとOAuth情報内のリフレッシュトークンをシークレットストアに移す
+ */
+async function migrateLegacySecrets(): Promise<void> {
+  const result = await chrome.storage.local.get([
+    'settings',
+    'oauth_credentials',
+  ]);
+  const settings = result.settings as { token?: string } | undefined;
+  const credentials = result.oauth_credentials as
+    { refreshToken?: string } | undefined;
+
+  const legacy: Secrets = {};
+  if (settings && typeof settings.token === 'string') {
+    legacy.token = settings.token;
+  }
+  if (credentials && typeof credentials.refreshToken === 'string') {
+    legacy.refreshToken = credentials.refreshToken;
+  }
+
+  if (legacy.token === undefined && legacy.refreshToken === undefined) {
+    return;
+  }
+
+  const state = await getState();
+  const current = await readSecrets(state);
+  if (!current) {
+    // ロック中は移行できないが、設定からは削除しない
+    return;
+  }
+
+  // シークレットストアに既にある値を優先する
+  await writeSecrets(state, mergeSecrets(legacy, current));
+
+  const updates: Record<string, unknown> = {};
+  if (settings && 'token' in settings) {
+    const rest: Record<string, unknown> = { ...settings };
+    delete rest.token;
+    updates.settings = rest;
+  }
+  if (credentials && 'refreshToken' in credentials) {
+    const rest: Record<string, unknown> = { ...credentials };
+    delete rest.refreshToken;
+    updates.oauth_credentials = rest;
+  }
+  await chrome.storage.local.set(updates);
+}
+
+/**
+ * シークレットストアの状態を取得
+ */
+async function getState(): Promise<SecretStoreState> {
+  const result = await chrome.storage.local.get(SECRET_STORE_KEY);
+  return result[SECRET_STORE_KEY] || { mode: 'local' };
+}
+
+/**
+ * シークレットを読み込む
+ * @returns Secrets（暗号化されていてロック中の場合null）
+ */
+async function readSecrets(state: SecretStoreState): Promise<Secrets | null> {
+  if (state.mode === 'local') {
+    const result = await chrome.storage.local.get(SECRETS_KEY);
+    return result[SECRETS_KEY] || {};
+  }
+
+  const result = await chrome.storage.session.get(SECRETS_KEY);
+  if (result[SECRETS_KEY]) {
+    return result[SECRETS_KEY];
+  }
+
+  // 暗号化されたデータがあるのに復号結果がない場合はロック中
+  if (state.mode === 'encrypted' && state.encrypted?.ciphertext) {
+    return null;
+  }
+
+  return {};
+}
+
+/**
+ * シークレットを保存する
+ */
+async function writeSecrets(
+  state: SecretStoreState,
+  secrets: Secrets
+): Promise<void> {
+  switch (state.mode) {
+    case 'local':
+      await chrome.storage.local.set({
+        [SECRET_STORE_KEY]: state,
+        [SECRETS_KEY]: secrets,
+      });
+      return;
+
+    case 'session':
+      await chrome.storage.local.set({ [SECRET_STORE_KEY]: state });
+      await chrome.storage.session.set({ [SECRETS_KEY]: secrets });
+      return;
+
+    case 'encrypted': {
+      const key = await getSessionKey();
+      if (!key || !state.encrypted) {
+        throw new SecretStoreLockedError();
+      }
+
+      const encrypted = await encryptSecrets(
+        secrets,
+        key,
+        state.encrypted.salt
+      );
+      await chrome.storage.local.set({
+        [SECRET_STORE_KEY]: { ...state, encrypted },
+      });
+      await chrome.storage.session.set({ [SECRETS_KEY]: secrets });
+      return;
+    }
+  }
+}
+
+/**
+ * シークレットをマージ（空文字の項目は削除）
+ */
+function mergeSecrets(base: Secrets, updates: Secrets): Secrets {
+  const merged: Secrets = { ...base, ...updates };
+  (Object.keys(merged) as SecretName[]).forEach((name) => {
+    if (!merged[name]) {
+      delete merged[name];
+    }
+  });
+  return merged;
+}
+
+/**
+ * パスフレーズからAES-GCMの鍵を導出
+ */
+async function deriveKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>
+): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * シークレットを暗号化
+ */
+async function encryptSecrets(
+  secrets: Secrets,
+  key: CryptoKey,
+  salt: string
+): Promise<EncryptedSecrets> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    key,
+    new TextEncoder().encode(JSON.stringify(secrets))
+  );
+
+  return {
+    salt,
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+}
+
+/**
+ * シークレットを復号
+ */
+async function decryptSecrets(
+  encrypted: EncryptedSecrets,
+  key: CryptoKey
+): Promise<Secrets> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(encrypted.iv) },
+    key,
+    fromBase64(encrypted.ciphertext)
+  );
+
+  return JSON.parse(new TextDecoder().decode(plaintext));
+}
+
+/**
+ * ロック解除中の鍵を chrome.storage.session に保持
+ * Service Workerが再起動しても、ブラウザを閉じるまではロック解除状態を維持する
+ */
+async function storeSessionKey(key: CryptoKey): Promise<void> {
+  const raw = await crypto.subtle.exportKey('raw', key);
+  await chrome.storage.session.set({
+    [SESSION_CRYPTO_KEY]: toBase64(new Uint8Array(raw)),
+  });
+}
+
+/**
+ * ロック解除中の鍵を取得
+ */
+async function getSessionKey(): Promise<CryptoKey | null> {
+  const result = await chrome.storage.session.get(SESSION_CRYPTO_KEY);
+  const raw = result[SESSION_CRYPTO_KEY];
+  if (!raw) {
+    return null;
+  }
+
+  return crypto.subtle.importKey(
+    'raw',
+    fromBase64(raw),
+    { name: 'AES-GCM' },
+    true,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/**
+ * バイト列をBase64に変換
+ */
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+/**
+ * Base64をバイト列に変換
+ */
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
@@ -2,6 +2,7 @@ import { Settings, DEFAULT_SETTINGS } from '../types/settings';
 
 /**
  * Chrome Storage APIを使用した設定の保存・取得機能
+ * トークンは設定とは別にシークレットストア（secret-store.ts）に保存する
  */
 
 /**
@@ -11,7 +12,10 @@ import { Settings, DEFAULT_SETTINGS } from '../types/settings';
  */
 export async function saveSettings(settings: Settings): Promise<void> {
   try {
-    await chrome.storage.local.set({ settings });
+    // インポートした設定などにトークンが含まれていても保存しない
+    const sanitized: Record<string, unknown> = { ...settings };
+    delete sanitized.token;
+    await chrome.storage.local.set({ settings: sanitized });
   } catch (error) {
     console.error('Failed to save settings:', error);
     throw new Error('設定の保存に失敗しました');
@@ -25,43 +29,14 @@ export async function saveSettings(settings: Settings): Promise<void> {
 export async function getSettings(): Promise<Settings> {
   try {
     const result = await chrome.storage.local.get('settings');
-    return result.settings || DEFAULT_SETTINGS;
+    // 後から追加された項目はデフォルト値で補う
+    return { ...DEFAULT_SETTINGS, ...result.settings };
   } catch (error) {
     console.error('Failed to get settings:', error);
     return DEFAULT_SETTINGS;
   }
 }
 
-/**
- * Personal Access Tokenを保存する
- * @param token 保存するトークン
- * @returns Promise<void>
- */
-export async function saveToken(token: string): Promise<void> {
-  try {
-    const settings = await getSettings();
-    settings.token = token;
-    await saveSettings(settings);
-  } catch (error) {
-    console.error('Failed to save token:', error);
-    throw new Error('トークンの保存に失敗しました');
-  }
-}
-
-/**
- * Personal Access Tokenを取得する
- * @returns Promise<string>
- */
-export async function getToken(): Promise<string> {
-  try {
-    const settings = await getSettings();
-    return settings.token || '';
-  } catch (error) {
-    console.error('Failed to get token:', error);
-    return '';
-  }
-}
-
 /**
  * 特定のキーのデータを保存する
  * @param key 保存するキー
@@ -118,4 +93,3 @@ export async function clearAllData(): Promise<void> {
     throw new Error('すべてのデータのクリアに失敗しました');
   }
 }
-
@@ -0,0 +1,141 @@
+import { SectionCapability, TokenInfo } from '../types/auth';
+
+/**
+ * トークンの権限と有効期限からダッシュボードで利用できる機能を判定する
+ */
+
+/**
+ * 有効期限の何日前から警告するか
+ */
+export const TOKEN_EXPIRY_WARNING_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * セクションごとに必要なスコープ
+ */
+export const SECTION_REQUIRED_SCOPES: Record<string, string[]> = {
+  repositories: ['repo', 'read:org'], // プライベートリポジトリとOrganization
+  issues: ['repo'], // プライベートリポジトリのIssue
+  projects: ['repo'], // Classic Projects（/user/projects）はrepoスコープが必要
+};
+
+/**
+ * 上位のスコープに含まれるスコープ
+ */
+const IMPLIED_SCOPES: Record<string, string[]> = {
+  repo: ['public_repo', 'repo:status', 'repo_deployment', 'repo:invite'],
+  'admin:org': ['write:org', 'read:org'],
+  'write:org': ['read:org'],
+  project: ['read:project'],
+  user: ['read:user', 'user:email', 'user:follow'],
+};
+
+/**
+ * X-OAuth-Scopes ヘッダーをパース
+ * @param header ヘッダーの値
+ * @returns スコープ一覧（ヘッダーがない場合null）
+ */
+export function parseScopes(header: string | null): string[] | null {
+  if (header === null) {
+    return null;
+  }
+
+  return header
+    .split(',')
+    .map((scope) => scope.trim())
+    .filter((scope) => scope.length > 0);
+}
+
+/**
+ * github-authentication-token-expiration ヘッダーをパース
+ * 例: "2024-05-01 12:00:00 UTC" / "2024-05-01 21:00:00 +0900"
+ * @param header ヘッダーの値
+ * @returns 有効期限（ミリ秒、パースできない場合null）
+ */
+export function parseTokenExpiration(header: string | null): number | null {
+  if (!header) {
+    return null;
+  }
+
+  const match =
+    /^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) (UTC|[+-]\d{4})$/.exec(
+      header.trim()
+    );
+  if (!match) {
+    const time = Date.parse(header);
+    return Number.isNaN(time) ? null : time;
+  }
+
+  const [, date, time, zone] = match;
+  const offset = zone === 'UTC' ? 'Z' : `${zone.slice(0, 3)}:${zone.slice(3)}`;
+  const expiresAt = Date.parse(`${date}T${time}${offset}`);
+  return Number.isNaN(expiresAt) ? null : expiresAt;
+}
+
+/**
+ * スコープが付与されているか確認（上位のスコープも考慮）
+ * @param granted 付与されたスコープ
+ * @param required 必要なスコープ
+ * @returns 付与されている場合true
+ */
+export function hasScope(granted: string[], required: string): boolean {
+  return granted.some(
+    (scope) =>
+      scope === required || (IMPLIED_SCOPES[scope] || []).includes(required)
+  );
+}
+
+/**
+ * セクションごとの利用可否を判定
+ * @param tokenInfo トークン情報
+ * @param sectionIds 判定するセクションID
+ * @returns SectionCapability[]
+ */
+export function getSectionCapabilities(
+  tokenInfo: TokenInfo,
+  sectionIds: string[] = Object.keys(SECTION_REQUIRED_SCOPES)
+): SectionCapability[] {
+  return sectionIds.map((sectionId) => {
+    // fine-grained token や GitHub App のトークンはスコープを取得できない
+    if (tokenInfo.scopes === null) {
+      return { sectionId, status: 'unknown', missingScopes: [] };
+    }
+
+    const granted = tokenInfo.scopes;
+    const missingScopes = (SECTION_REQUIRED_SCOPES[sectionId] || []).filter(
+      (scope) => !hasScope(granted, scope)
+    );
+
+    return {
+      sectionId,
+      status: missingScopes.length === 0 ? 'available' : 'limited',
+      missingScopes,
+    };
+  });
+}
+
+/**
+ * 有効期限までの日数を取得
+ * @param expiresAt 有効期限（ミリ秒）
+ * @param now 現在時刻
+ * @returns 日数（切り上げ、期限切れの場合は0以下）
+ */
+export function getDaysUntilExpiry(
+  expiresAt: number,
+  now: number = Date.now()
+): number {
+  return Math.ceil((expiresAt - now) / DAY_MS);
+}
+
+/**
+ * 有効期限の警告を表示するか判定
+ * @param expiresAt 有効期限（期限なしの場合null）
+ * @returns 警告する場合true
+ */
+export function shouldWarnTokenExpiry(expiresAt: number | null): boolean {
+  return (
+    expiresAt !== null &&
+    getDaysUntilExpiry(expiresAt) <= TOKEN_EXPIRY_WARNING_DAYS
+  );
+}
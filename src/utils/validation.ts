@@ -1,4 +1,34 @@
-import { Settings, LayoutItem } from '../types/settings';
+import {
+  SettingsExport,
+  LayoutItem,
+  HostProfile,
+  CacheSettings,
+  PrefetchSettings,
+  BadgeSettings,
+  NotificationSettings,
+  MAX_CACHE_TTL,
+  MAX_STALE_AGE,
+  MIN_STORAGE_BUDGET,
+  MAX_STORAGE_BUDGET,
+  DEFAULT_CACHE_SETTINGS,
+  MIN_PREFETCH_INTERVAL,
+  MAX_PREFETCH_INTERVAL,
+} from '../types/settings';
+import { RpcMethod } from '../types/messages';
+import { SecretStorageMode } from '../types/auth';
+
+/**
+ * オーナー名・リポジトリ名（owner/repo）・時刻（HH:MM）の形式
+ */
+const OWNER_NAME_PATTERN = /^[A-Za-z0-9_.-]+$/;
+const REPOSITORY_NAME_PATTERN = /^[A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+$/;
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * 以前のバージョンで設定できたデータタイプ
+ * エクスポートした設定に残っていてもエラーにしない（読み込み時に無視される）
+ */
+const REMOVED_CACHE_DATA_TYPES = ['user', 'organizations'];
 
 /**
  * バリデーション結果の型定義
@@ -21,7 +51,7 @@ export function validateSettings(settings: unknown): ValidationResult {
     return { valid: false, errors };
   }
 
-  const s = settings as Partial<Settings>;
+  const s = settings as Partial<SettingsExport>;
 
   // layoutのバリデーション
   if (!s.layout || !Array.isArray(s.layout)) {
@@ -35,14 +65,75 @@ export function validateSettings(settings: unknown): ValidationResult {
     });
   }
 
-  // tokenのバリデーション
+  // hostsのバリデーション（古い設定データには存在しない）
+  if (s.hosts !== undefined) {
+    if (!Array.isArray(s.hosts)) {
+      errors.push('hostsが配列ではありません');
+    } else {
+      s.hosts.forEach((host, index) => {
+        const hostErrors = validateHostProfile(host);
+        if (!hostErrors.valid) {
+          errors.push(`hosts[${index}]: ${hostErrors.errors.join(', ')}`);
+        }
+      });
+    }
+  }
+
+  if (s.activeHostId !== undefined && typeof s.activeHostId !== 'string') {
+    errors.push('activeHostIdが文字列ではありません');
+  }
+
+  // tokenのバリデーション（トークンを含めてエクスポートした場合のみ存在）
   if (s.token !== undefined && typeof s.token !== 'string') {
     errors.push('tokenが文字列ではありません');
   }
 
-  // cacheのバリデーション
-  if (s.cache !== undefined && typeof s.cache !== 'object') {
-    errors.push('cacheがオブジェクトではありません');
+  // oauthのバリデーション（古い設定データには存在しない）
+  if (s.oauth !== undefined) {
+    if (!s.oauth || typeof s.oauth !== 'object') {
+      errors.push('oauthがオブジェクトではありません');
+    } else {
+      if (typeof s.oauth.clientId !== 'string') {
+        errors.push('oauth.clientIdが文字列ではありません');
+      }
+      if (s.oauth.baseUrl && !isHttpUrl(s.oauth.baseUrl)) {
+        errors.push('oauth.baseUrlが正しいURLではありません');
+      }
+    }
+  }
+
+  // cacheのバリデーション（古い設定データでは空のオブジェクト）
+  if (s.cache !== undefined) {
+    const cacheErrors = validateCacheSettings(s.cache);
+    if (!cacheErrors.valid) {
+      errors.push(...cacheErrors.errors.map((error) => `cache.${error}`));
+    }
+  }
+
+  // prefetchのバリデーション（古い設定データには存在しない）
+  if (s.prefetch !== undefined) {
+    const prefetchErrors = validatePrefetchSettings(s.prefetch);
+    if (!prefetchErrors.valid) {
+      errors.push(...prefetchErrors.errors.map((error) => `prefetch.${error}`));
+    }
+  }
+
+  // badgeのバリデーション（古い設定データには存在しない）
+  if (s.badge !== undefined) {
+    const badgeErrors = validateBadgeSettings(s.badge);
+    if (!badgeErrors.valid) {
+      errors.push(...badgeErrors.errors.map((error) => `badge.${error}`));
+    }
+  }
+
+  // notificationsのバリデーション（古い設定データには存在しない）
+  if (s.notifications !== undefined) {
+    const notificationErrors = validateNotificationSettings(s.notifications);
+    if (!notificationErrors.valid) {
+      errors.push(
+        ...notificationErrors.errors.map((error) => `notifications.${error}`)
+      );
+    }
   }
 
   return {
@@ -84,6 +175,268 @@ export function validateLayoutItem(item: unknown): ValidationResult {
   };
 }
 
+/**
+ * キャッシュ設定のバリデーション
+ * 存在する項目のみ検証する（存在しない項目はデフォルト値を使用）
+ * @param cache バリデーション対象のキャッシュ設定
+ * @returns ValidationResult
+ */
+export function validateCacheSettings(cache: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (!cache || typeof cache !== 'object') {
+    errors.push('キャッシュ設定が不正です');
+    return { valid: false, errors };
+  }
+
+  const c = cache as Partial<CacheSettings>;
+
+  if (c.ttl !== undefined) {
+    if (!c.ttl || typeof c.ttl !== 'object') {
+      errors.push('ttlがオブジェクトではありません');
+    } else {
+      Object.entries(c.ttl).forEach(([dataType, ttl]) => {
+        if (REMOVED_CACHE_DATA_TYPES.includes(dataType)) {
+          return;
+        }
+        if (!(dataType in DEFAULT_CACHE_SETTINGS.ttl)) {
+          errors.push(`ttl.${dataType}: 不明なデータタイプです`);
+        } else if (!isIntegerInRange(ttl, 0, MAX_CACHE_TTL)) {
+          errors.push(
+            `ttl.${dataType}: 0〜${MAX_CACHE_TTL}秒の整数で指定してください`
+          );
+        }
+      });
+    }
+  }
+
+  if (
+    c.maxStaleAge !== undefined &&
+    !isIntegerInRange(c.maxStaleAge, 0, MAX_STALE_AGE)
+  ) {
+    errors.push(`maxStaleAge: 0〜${MAX_STALE_AGE}秒の整数で指定してください`);
+  }
+
+  if (
+    c.storageBudget !== undefined &&
+    !isIntegerInRange(c.storageBudget, MIN_STORAGE_BUDGET, MAX_STORAGE_BUDGET)
+  ) {
+    errors.push(
+      `storageBudget: ${MIN_STORAGE_BUDGET}〜${MAX_STORAGE_BUDGET}バイトの整数で指定してください`
+    );
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * バックグラウンド更新の設定のバリデーション
+ * @param prefetch バリデーション対象のバックグラウンド更新の設定
+ * @returns ValidationResult
+ */
+export function validatePrefetchSettings(prefetch: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (!prefetch || typeof prefetch !== 'object') {
+    errors.push('バックグラウンド更新の設定が不正です');
+    return { valid: false, errors };
+  }
+
+  const p = prefetch as Partial<PrefetchSettings>;
+
+  if (typeof p.enabled !== 'boolean') {
+    errors.push('enabledがbooleanではありません');
+  }
+
+  if (
+    !isIntegerInRange(p.interval, MIN_PREFETCH_INTERVAL, MAX_PREFETCH_INTERVAL)
+  ) {
+    errors.push(
+      `interval: ${MIN_PREFETCH_INTERVAL}〜${MAX_PREFETCH_INTERVAL}分の整数で指定してください`
+    );
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * バッジの設定のバリデーション
+ * @param badge バリデーション対象のバッジの設定
+ * @returns ValidationResult
+ */
+export function validateBadgeSettings(badge: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (!badge || typeof badge !== 'object') {
+    errors.push('バッジの設定が不正です');
+    return { valid: false, errors };
+  }
+
+  const b = badge as Partial<BadgeSettings>;
+
+  if (typeof b.mentions !== 'boolean') {
+    errors.push('mentionsがbooleanではありません');
+  }
+
+  if (typeof b.reviewRequests !== 'boolean') {
+    errors.push('reviewRequestsがbooleanではありません');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * デスクトップ通知の設定のバリデーション
+ * @param notifications バリデーション対象のデスクトップ通知の設定
+ * @returns ValidationResult
+ */
+export function validateNotificationSettings(
+  notifications: unknown
+): ValidationResult {
+  const errors: string[] = [];
+
+  if (!notifications || typeof notifications !== 'object') {
+    errors.push('通知の設定が不正です');
+    return { valid: false, errors };
+  }
+
+  const n = notifications as Partial<NotificationSettings>;
+
+  if (typeof n.enabled !== 'boolean') {
+    errors.push('enabledがbooleanではありません');
+  }
+
+  if (!Array.isArray(n.mutedRepositories)) {
+    errors.push('mutedRepositoriesが配列ではありません');
+  } else {
+    n.mutedRepositories.forEach((name) => {
+      if (typeof name !== 'string' || !REPOSITORY_NAME_PATTERN.test(name)) {
+        errors.push(
+          `mutedRepositories: 「${name}」はowner/repoの形式で指定してください`
+        );
+      }
+    });
+  }
+
+  if (!Array.isArray(n.mutedOrganizations)) {
+    errors.push('mutedOrganizationsが配列ではありません');
+  } else {
+    n.mutedOrganizations.forEach((name) => {
+      if (typeof name !== 'string' || !OWNER_NAME_PATTERN.test(name)) {
+        errors.push(`mutedOrganizations: 「${name}」は不正な名前です`);
+      }
+    });
+  }
+
+  if (!n.quietHours || typeof n.quietHours !== 'object') {
+    errors.push('quietHoursがオブジェクトではありません');
+  } else {
+    if (typeof n.quietHours.enabled !== 'boolean') {
+      errors.push('quietHours.enabledがbooleanではありません');
+    }
+    if (!isTimeOfDay(n.quietHours.start)) {
+      errors.push('quietHours.start: HH:MMの形式で指定してください');
+    }
+    if (!isTimeOfDay(n.quietHours.end)) {
+      errors.push('quietHours.end: HH:MMの形式で指定してください');
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * ホストプロファイルのバリデーション
+ * @param host バリデーション対象のホストプロファイル
+ * @returns ValidationResult
+ */
+export function validateHostProfile(host: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (!host || typeof host !== 'object') {
+    errors.push('ホストプロファイルが不正です');
+    return { valid: false, errors };
+  }
+
+  const h = host as Partial<HostProfile>;
+
+  if (!h.id || typeof h.id !== 'string') {
+    errors.push('idが不正です');
+  }
+
+  if (!h.name || typeof h.name !== 'string') {
+    errors.push('nameが不正です');
+  }
+
+  if (!isHttpUrl(h.webUrl)) {
+    errors.push('webUrlが正しいURLではありません');
+  }
+
+  if (!isHttpUrl(h.apiUrl)) {
+    errors.push('apiUrlが正しいURLではありません');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * HH:MM形式の時刻かどうか確認
+ * @param value 確認する値
+ * @returns HH:MM形式（00:00〜23:59）の場合true
+ */
+function isTimeOfDay(value: unknown): boolean {
+  return typeof value === 'string' && TIME_OF_DAY_PATTERN.test(value);
+}
+
+/**
+ * 範囲内の整数かどうか確認
+ * @param value 確認する値
+ * @param min 最小値
+ * @param max 最大値
+ * @returns 範囲内の整数の場合true
+ */
+function isIntegerInRange(value: unknown, min: number, max: number): boolean {
+  return (
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= min &&
+    value <= max
+  );
+}
+
+/**
+ * http(s) のURLかどうか確認
+ * @param value 確認する値
+ * @returns http(s) のURLの場合true
+ */
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') {
+    return false;
+  }
+
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Personal Access Tokenの形式バリデーション
  * @param token バリデーション対象のトークン
@@ -141,3 +494,106 @@ export function validateJSON(
   }
 }
 
+/**
+ * トークンの保存方法
+ */
+const SECRET_STORAGE_MODES: SecretStorageMode[] = [
+  'local',
+  'session',
+  'encrypted',
+];
+
+/**
+ * 要求メッセージの種類ごとの内容のバリデーション
+ * Record<RpcMethod, ...> にすることで、要求を追加した時にバリデーションの追加漏れを防ぐ
+ */
+const RPC_REQUEST_VALIDATORS: Record<
+  RpcMethod,
+  (message: Record<string, unknown>) => string[]
+> = {
+  GET_SETTINGS: () => [],
+  SAVE_SETTINGS: (message) =>
+    validateSettings(message.settings).errors.map(
+      (error) => `settings: ${error}`
+    ),
+  SAVE_TOKEN: (message) =>
+    typeof message.token === 'string' ? [] : ['tokenが文字列ではありません'],
+  VALIDATE_TOKEN: () => [],
+  GET_TOKEN_INFO: () => [],
+  GET_AUTH_STATUS: () => [],
+  UNLOCK_TOKEN: (message) =>
+    typeof message.passphrase === 'string'
+      ? []
+      : ['passphraseが文字列ではありません'],
+  LOCK_TOKEN: () => [],
+  SET_SECRET_STORAGE: (message) => [
+    ...(SECRET_STORAGE_MODES.includes(message.mode as SecretStorageMode)
+      ? []
+      : ['modeが不正です']),
+    ...(message.passphrase === undefined ||
+    typeof message.passphrase === 'string'
+      ? []
+      : ['passphraseが文字列ではありません']),
+  ],
+  EXPORT_SECRETS: () => [],
+  START_DEVICE_FLOW: () => [],
+  POLL_DEVICE_FLOW: (message) => [
+    ...(isNonEmptyString(message.deviceCode)
+      ? []
+      : ['deviceCodeが文字列ではありません']),
+    ...(typeof message.interval === 'number' && message.interval > 0
+      ? []
+      : ['intervalが正の数値ではありません']),
+  ],
+  REFRESH_DATA: () => [],
+  GET_CACHE_DIAGNOSTICS: () => [],
+  PURGE_CACHE_ENTRY: (message) =>
+    isNonEmptyString(message.key) ? [] : ['keyが文字列ではありません'],
+  DASHBOARD_VIEWED: () => [],
+  REPOSITORY_OPENED: (message) =>
+    typeof message.fullName === 'string' &&
+    REPOSITORY_NAME_PATTERN.test(message.fullName)
+      ? []
+      : ['fullNameが不正です'],
+  OPEN_OPTIONS: () => [],
+};
+
+/**
+ * 要求メッセージのバリデーション
+ * Service Workerが受信したメッセージの種類と内容を確認する
+ * （プロトコルバージョンの確認は呼び出し側で行う）
+ * @param message バリデーション対象のメッセージ
+ * @returns ValidationResult
+ */
+export function validateRpcRequest(message: unknown): ValidationResult {
+  if (!message || typeof message !== 'object') {
+    return { valid: false, errors: ['メッセージが不正です'] };
+  }
+
+  const m = message as Record<string, unknown>;
+  if (
+    typeof m.type !== 'string' ||
+    !Object.prototype.hasOwnProperty.call(RPC_REQUEST_VALIDATORS, m.type)
+  ) {
+    return {
+      valid: false,
+      errors: [`不明なメッセージタイプです: ${String(m.type)}`],
+    };
+  }
+
+  const errors = RPC_REQUEST_VALIDATORS[m.type as RpcMethod](m);
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+/**
+ * 空でない文字列かどうか確認
+ * @param value 確認する値
+ * @returns 空でない文字列の場合true
+ */
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.length > 0;
+}
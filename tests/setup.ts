@@ -0,0 +1,46 @@
+/**
+ * テスト用のchrome APIのモック
+ * chrome.storage.local / chrome.storage.session をメモリ上のMapで置き換える
+ */
+
+/**
+ * メモリ上のストレージ領域を作成
+ */
+function createStorageArea() {
+  const storage = new Map<string, unknown>();
+
+  return {
+    async get(keys?: string | string[] | null) {
+      if (keys === null || keys === undefined) {
+        return Object.fromEntries(storage);
+      }
+      const result: Record<string, unknown> = {};
+      (Array.isArray(keys) ? keys : [keys]).forEach((key) => {
+        if (storage.has(key)) {
+          result[key] = storage.get(key);
+        }
+      });
+      return result;
+    },
+    async set(items: Record<string, unknown>) {
+      Object.entries(items).forEach(([key, value]) => storage.set(key, value));
+    },
+    async remove(keys: string | string[]) {
+      (Array.isArray(keys) ? keys : [keys]).forEach((key) =>
+        storage.delete(key)
+      );
+    },
+    async clear() {
+      storage.clear();
+    },
+  };
+}
+
+Object.assign(globalThis, {
+  chrome: {
+    storage: {
+      local: createStorageArea(),
+      session: createStorageArea(),
+    },
+  },
+});
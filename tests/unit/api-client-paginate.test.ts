@@ -0,0 +1,136 @@
+import { GitHubApiClient } from '../../src/background/api-client';
+import { RateLimitGovernor } from '../../src/background/rate-limit-governor';
+import { RequestScheduler } from '../../src/background/request-scheduler';
+
+const BASE_URL = 'https://api.github.com';
+
+/**
+ * ページのレスポンスを作成
+ * @param data レスポンスボディ
+ * @param next 次ページのURL（最終ページの場合は省略）
+ */
+function createPage(data: unknown, next?: string): Response {
+  const headers = new Headers({ ETag: '"etag"' });
+  if (next) {
+    headers.set(
+      'Link',
+      `<${next}>; rel="next", <${BASE_URL}/items?page=9>; rel="last"`
+    );
+  }
+  return new Response(JSON.stringify(data), { status: 200, headers });
+}
+
+/**
+ * ページを順に取得し、各ページのデータを配列にまとめる
+ */
+async function collectPages<T>(
+  iterator: AsyncGenerator<{ data: T }>
+): Promise<T[]> {
+  const pages: T[] = [];
+  for await (const response of iterator) {
+    pages.push(response.data);
+  }
+  return pages;
+}
+
+describe('GitHubApiClient.paginate', () => {
+  let client: GitHubApiClient;
+  let fetchMock: jest.Mock;
+
+  beforeEach(async () => {
+    await chrome.storage.local.clear();
+    fetchMock = jest.fn();
+    globalThis.fetch = fetchMock;
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    client = new GitHubApiClient(
+      'token',
+      BASE_URL,
+      new RateLimitGovernor(),
+      new RequestScheduler()
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('Linkヘッダーの rel="next" をたどってすべてのページを取得する', async () => {
+    fetchMock
+      .mockResolvedValueOnce(createPage([1, 2], `${BASE_URL}/items?page=2`))
+      .mockResolvedValueOnce(createPage([3, 4], `${BASE_URL}/items?page=3`))
+      .mockResolvedValueOnce(createPage([5]));
+
+    const pages = await collectPages(client.paginate<number[]>('/items'));
+
+    expect(pages).toEqual([[1, 2], [3, 4], [5]]);
+    expect(fetchMock.mock.calls.map(([url]) => url)).toEqual([
+      `${BASE_URL}/items`,
+      `${BASE_URL}/items?page=2`,
+      `${BASE_URL}/items?page=3`,
+    ]);
+  });
+
+  it('Linkヘッダーがなければ1ページで終了する', async () => {
+    fetchMock.mockResolvedValueOnce(createPage([1]));
+
+    const pages = await collectPages(client.paginate<number[]>('/items'));
+
+    expect(pages).toEqual([[1]]);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('最大ページ数に達したら打ち切る', async () => {
+    fetchMock
+      .mockResolvedValueOnce(createPage([1], `${BASE_URL}/items?page=2`))
+      .mockResolvedValueOnce(createPage([2], `${BASE_URL}/items?page=3`));
+
+    const pages = await collectPages(
+      client.paginate<number[]>('/items', { maxPages: 2 })
+    );
+
+    expect(pages).toEqual([[1], [2]]);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(console.warn).toHaveBeenCalled();
+  });
+
+  it('呼び出し側がbreakした場合は次のページを取得しない', async () => {
+    fetchMock.mockResolvedValueOnce(
+      createPage([1], `${BASE_URL}/items?page=2`)
+    );
+
+    for await (const response of client.paginate<number[]>('/items')) {
+      expect(response.data).toEqual([1]);
+      break;
+    }
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('検証子は1ページ目のみに送り、304の場合はそこで終了する', async () => {
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 304 }));
+
+    const responses = [];
+    for await (const response of client.paginate('/items', {
+      validators: { etag: '"etag"' },
+    })) {
+      responses.push(response);
+    }
+
+    expect(responses).toHaveLength(1);
+    expect(responses[0].notModified).toBe(true);
+    expect(fetchMock.mock.calls[0][1].headers['If-None-Match']).toBe('"etag"');
+  });
+
+  it('2ページ目以降は条件付きリクエストにしない', async () => {
+    fetchMock
+      .mockResolvedValueOnce(createPage([1], `${BASE_URL}/items?page=2`))
+      .mockResolvedValueOnce(createPage([2]));
+
+    await collectPages(
+      client.paginate<number[]>('/items', { validators: { etag: '"old"' } })
+    );
+
+    expect(fetchMock.mock.calls[0][1].headers['If-None-Match']).toBe('"old"');
+    expect(fetchMock.mock.calls[1][1].headers['If-None-Match']).toBeUndefined();
+  });
+});
@@ -0,0 +1,146 @@
+import { GitHubApiClient } from '../../src/background/api-client';
+import {
+  CacheManager,
+  getNamespacedKey,
+} from '../../src/background/cache-manager';
+import {
+  CACHE_KEYS,
+  USER_CACHE_KEY,
+  fetchProjects,
+  fetchUser,
+} from '../../src/background/github-api';
+import { RateLimitGovernor } from '../../src/background/rate-limit-governor';
+import { RequestScheduler } from '../../src/background/request-scheduler';
+import { Project, User } from '../../src/types/api';
+
+const BASE_URL = 'https://api.github.com';
+const NAMESPACE = 'api.github.com/1';
+const TTL = 60;
+const START = Date.parse('2026-10-10T00:00:00Z');
+
+/**
+ * レスポンスを作成
+ * @param data レスポンスボディ
+ * @param etag ETag
+ * @param next 次ページのURL（最終ページの場合は省略）
+ */
+function createResponse(data: unknown, etag: string, next?: string): Response {
+  const headers = new Headers({ ETag: etag });
+  if (next) {
+    headers.set('Link', `<${next}>; rel="next"`);
+  }
+  return new Response(JSON.stringify(data), { status: 200, headers });
+}
+
+/**
+ * 304のレスポンスを作成
+ */
+function createNotModified(): Response {
+  return new Response(null, { status: 304 });
+}
+
+describe('条件付きリクエストによるキャッシュの再利用', () => {
+  const user = { login: 'octocat', id: 1 } as User;
+  const projects = [{ id: 1 }, { id: 2 }] as Project[];
+
+  let client: GitHubApiClient;
+  let cache: CacheManager;
+  let fetchMock: jest.Mock;
+  let now: number;
+
+  /**
+   * キャッシュの有効期限が切れるまで時間を進める
+   */
+  function expire() {
+    now += (TTL + 1) * 1000;
+  }
+
+  /**
+   * 送信したリクエストの If-None-Match ヘッダーを取得
+   * @param call 何回目のリクエストか（0から）
+   */
+  function ifNoneMatch(call: number): string | undefined {
+    return fetchMock.mock.calls[call][1].headers['If-None-Match'];
+  }
+
+  beforeEach(async () => {
+    await chrome.storage.local.clear();
+    await chrome.storage.session.clear();
+    now = START;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    fetchMock = jest.fn();
+    globalThis.fetch = fetchMock;
+    client = new GitHubApiClient(
+      'token',
+      BASE_URL,
+      new RateLimitGovernor(),
+      new RequestScheduler()
+    );
+    cache = new CacheManager();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('304の場合は期限切れのキャッシュを返し、有効期限を延長する', async () => {
+    const options = { ttl: TTL, namespace: NAMESPACE };
+    fetchMock
+      .mockResolvedValueOnce(createResponse(user, '"user"'))
+      .mockResolvedValueOnce(createNotModified());
+
+    await fetchUser(client, cache, options);
+    expire();
+
+    expect(await fetchUser(client, cache, options)).toEqual(user);
+    expect(ifNoneMatch(1)).toBe('"user"');
+
+    const entry = await cache.getEntry<User>(
+      getNamespacedKey(NAMESPACE, USER_CACHE_KEY)
+    );
+    expect(entry?.timestamp).toBe(now);
+
+    // 延長した有効期限内はAPIにアクセスしない
+    expect(await fetchUser(client, cache, options)).toEqual(user);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('1ページの一覧は、304の場合にキャッシュを再利用する', async () => {
+    const options = { ttl: TTL, namespace: NAMESPACE };
+    fetchMock
+      .mockResolvedValueOnce(createResponse(projects, '"projects"'))
+      .mockResolvedValueOnce(createNotModified());
+
+    await fetchProjects(client, cache, options);
+    expire();
+
+    expect(await fetchProjects(client, cache, options)).toEqual(projects);
+    expect(ifNoneMatch(1)).toBe('"projects"');
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('2ページ以上の一覧は検証子を保存せず、次回も全ページを取得する', async () => {
+    const options = { ttl: TTL, namespace: NAMESPACE };
+    const [first, second] = projects;
+    const next = `${BASE_URL}/user/projects?per_page=100&page=2`;
+    fetchMock
+      .mockResolvedValueOnce(createResponse([first], '"page1"', next))
+      .mockResolvedValueOnce(createResponse([second], '"page2"'))
+      .mockResolvedValueOnce(createResponse([first], '"page1"', next))
+      .mockResolvedValueOnce(createResponse([second], '"page2"'));
+
+    expect(await fetchProjects(client, cache, options)).toEqual(projects);
+
+    const entry = await cache.getEntry<Project[]>(
+      getNamespacedKey(NAMESPACE, CACHE_KEYS.projects)
+    );
+    expect(entry?.validators).toBeUndefined();
+
+    expire();
+    expect(await fetchProjects(client, cache, options)).toEqual(projects);
+    expect(ifNoneMatch(2)).toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,83 @@
+import { fuzzyFilter, fuzzyMatch } from '../../src/utils/fuzzy-match';
+
+describe('fuzzyMatch', () => {
+  it('文字が順番通りに含まれていれば一致する', () => {
+    expect(fuzzyMatch('gdc', 'github-dashboard-customizer')).toMatchObject({
+      indices: [0, 7, 17],
+    });
+  });
+
+  it('順番が違う、または含まれない文字があれば一致しない', () => {
+    expect(fuzzyMatch('cdg', 'github-dashboard-customizer')).toBeNull();
+    expect(fuzzyMatch('xyz', 'github-dashboard-customizer')).toBeNull();
+  });
+
+  it('大文字・小文字と空白を区別しない', () => {
+    expect(fuzzyMatch('Octo Cat', 'octocat/hello')).toMatchObject({
+      indices: [0, 1, 2, 3, 4, 5, 6],
+    });
+  });
+
+  it('空のクエリはすべてに一致する', () => {
+    expect(fuzzyMatch('', 'anything')).toEqual({ score: 0, indices: [] });
+    expect(fuzzyMatch('   ', 'anything')).toEqual({ score: 0, indices: [] });
+  });
+
+  it('連続した一致ほどスコアが高い', () => {
+    const consecutive = fuzzyMatch('abc', 'xabcx');
+    const scattered = fuzzyMatch('abc', 'xaxbxc');
+
+    expect(consecutive!.score).toBeGreaterThan(scattered!.score);
+  });
+
+  it('単語の先頭での一致ほどスコアが高い', () => {
+    const wordStart = fuzzyMatch('r', 'octocat/repo');
+    const middle = fuzzyMatch('r', 'octocat/xrep');
+
+    expect(wordStart!.score).toBeGreaterThan(middle!.score);
+  });
+
+  it('テキストの先頭での一致は単語の先頭より高い', () => {
+    const textStart = fuzzyMatch('o', 'octo/x');
+    const wordStart = fuzzyMatch('o', 'xxxx/o');
+
+    expect(textStart!.score).toBeGreaterThan(wordStart!.score);
+  });
+
+  it('同じ一致なら短いテキストほどスコアが高い', () => {
+    const short = fuzzyMatch('repo', 'repo');
+    const long = fuzzyMatch('repo', 'repository');
+
+    expect(short!.score).toBeGreaterThan(long!.score);
+  });
+});
+
+describe('fuzzyFilter', () => {
+  const repositories = [
+    'octocat/spoon-knife',
+    'octocat/hello-world',
+    'github/docs',
+    'octocat/hello',
+  ];
+
+  it('一致したものだけをスコアの高い順に返す', () => {
+    const results = fuzzyFilter(repositories, 'hello', (repo) => repo);
+
+    expect(results.map((result) => result.item)).toEqual([
+      'octocat/hello',
+      'octocat/hello-world',
+    ]);
+  });
+
+  it('件数の上限まで返す', () => {
+    const results = fuzzyFilter(repositories, 'o', (repo) => repo, 2);
+
+    expect(results).toHaveLength(2);
+  });
+
+  it('空のクエリでは元の順番のまま返す', () => {
+    const results = fuzzyFilter(repositories, '', (repo) => repo);
+
+    expect(results.map((result) => result.item)).toEqual(repositories);
+  });
+});
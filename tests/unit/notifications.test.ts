@@ -0,0 +1,158 @@
+import {
+  isMuted,
+  isQuietTime,
+  notifyNewItems,
+} from '../../src/background/notifications';
+import {
+  fetchMentionedIssues,
+  fetchReviewRequests,
+} from '../../src/background/github-api';
+import { GitHubApiClient } from '../../src/background/api-client';
+import { Issue } from '../../src/types/api';
+import {
+  DEFAULT_SETTINGS,
+  NotificationSettings,
+  QuietHours,
+  Settings,
+} from '../../src/types/settings';
+
+jest.mock('../../src/background/github-api', () => ({
+  fetchMentionedIssues: jest.fn(),
+  fetchReviewRequests: jest.fn(),
+}));
+
+/**
+ * テスト用のIssueを作成
+ */
+function createIssue(id: number, fullName = 'octocat/hello'): Issue {
+  return {
+    id,
+    number: id,
+    title: `Issue ${id}`,
+    state: 'open',
+    html_url: `https://github.com/${fullName}/issues/${id}`,
+    repository_url: `https://api.github.com/repos/${fullName}`,
+    user: { login: 'octocat' } as Issue['user'],
+    labels: [],
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+  };
+}
+
+/**
+ * 指定した時刻（ローカル時刻）のDateを作成
+ */
+function at(time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(2024, 0, 1, hours, minutes);
+}
+
+describe('isQuietTime', () => {
+  const overnight: QuietHours = { enabled: true, start: '22:00', end: '08:00' };
+  const daytime: QuietHours = { enabled: true, start: '12:00', end: '13:30' };
+
+  it('無効な場合は常にfalse', () => {
+    expect(isQuietTime({ ...overnight, enabled: false }, at('23:00'))).toBe(
+      false
+    );
+  });
+
+  it('日をまたがない時間帯は開始以上・終了未満', () => {
+    expect(isQuietTime(daytime, at('11:59'))).toBe(false);
+    expect(isQuietTime(daytime, at('12:00'))).toBe(true);
+    expect(isQuietTime(daytime, at('13:29'))).toBe(true);
+    expect(isQuietTime(daytime, at('13:30'))).toBe(false);
+  });
+
+  it('日をまたぐ時間帯は開始以降と終了前の両方を含む', () => {
+    expect(isQuietTime(overnight, at('21:59'))).toBe(false);
+    expect(isQuietTime(overnight, at('22:00'))).toBe(true);
+    expect(isQuietTime(overnight, at('00:00'))).toBe(true);
+    expect(isQuietTime(overnight, at('07:59'))).toBe(true);
+    expect(isQuietTime(overnight, at('08:00'))).toBe(false);
+    expect(isQuietTime(overnight, at('12:00'))).toBe(false);
+  });
+});
+
+describe('isMuted', () => {
+  const notifications: NotificationSettings = {
+    ...DEFAULT_SETTINGS.notifications,
+    mutedRepositories: ['Octocat/Spoon-Knife'],
+    mutedOrganizations: ['github'],
+  };
+
+  it('ミュートしたリポジトリは大文字・小文字を区別せずに除外する', () => {
+    expect(isMuted(notifications, createIssue(1, 'octocat/spoon-knife'))).toBe(
+      true
+    );
+    expect(isMuted(notifications, createIssue(2, 'octocat/hello'))).toBe(false);
+  });
+
+  it('ミュートしたOrganizationのリポジトリをすべて除外する', () => {
+    expect(isMuted(notifications, createIssue(1, 'github/docs'))).toBe(true);
+    expect(isMuted(notifications, createIssue(2, 'GitHub/Linguist'))).toBe(
+      true
+    );
+    expect(isMuted(notifications, createIssue(3, 'githubber/docs'))).toBe(
+      false
+    );
+  });
+
+  it('repository がある場合は full_name で判定する', () => {
+    const issue = {
+      ...createIssue(1, 'octocat/hello'),
+      repository: { name: 'docs', full_name: 'github/docs' },
+    };
+    expect(isMuted(notifications, issue)).toBe(true);
+  });
+});
+
+describe('notifyNewItems', () => {
+  const client = new GitHubApiClient('token');
+  const settings: Settings = {
+    ...DEFAULT_SETTINGS,
+    notifications: {
+      ...DEFAULT_SETTINGS.notifications,
+      quietHours: { enabled: true, start: '22:00', end: '08:00' },
+    },
+  };
+  const createNotification = jest.fn(
+    (_id: string, _options: unknown, callback: () => void) => callback()
+  );
+
+  beforeEach(async () => {
+    await chrome.storage.local.clear();
+    createNotification.mockClear();
+    Object.assign(chrome, {
+      notifications: { create: createNotification },
+      runtime: { getURL: (path: string) => path },
+    });
+    jest.mocked(fetchReviewRequests).mockResolvedValue([]);
+    jest.mocked(fetchMentionedIssues).mockResolvedValue([createIssue(1)]);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('通知しない時間帯に見つかったものは終了後に通知する', async () => {
+    jest.useFakeTimers({ now: at('21:00') });
+    await notifyNewItems(client, settings, 'ns');
+
+    jest
+      .mocked(fetchMentionedIssues)
+      .mockResolvedValue([createIssue(1), createIssue(2)]);
+    jest.setSystemTime(at('23:00'));
+    await notifyNewItems(client, settings, 'ns');
+    expect(createNotification).not.toHaveBeenCalled();
+
+    jest.setSystemTime(at('08:30'));
+    await notifyNewItems(client, settings, 'ns');
+    expect(createNotification).toHaveBeenCalledTimes(1);
+    expect(createNotification.mock.calls[0][0]).toContain('/issues/2');
+
+    // 通知したものは再度通知しない
+    await notifyNewItems(client, settings, 'ns');
+    expect(createNotification).toHaveBeenCalledTimes(1);
+  });
+});
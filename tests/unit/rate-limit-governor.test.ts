@@ -0,0 +1,154 @@
+import { RateLimitGovernor } from '../../src/background/rate-limit-governor';
+import { RateLimit } from '../../src/types/api';
+
+const NOW = 1_700_000_000_000;
+
+/**
+ * リセットまで30分あるレートリミット情報を作成
+ */
+function createRateLimit(overrides: Partial<RateLimit> = {}): RateLimit {
+  return {
+    limit: 5000,
+    remaining: 5000,
+    reset: (NOW + 30 * 60 * 1000) / 1000,
+    used: 0,
+    ...overrides,
+  };
+}
+
+describe('RateLimitGovernor', () => {
+  let governor: RateLimitGovernor;
+
+  beforeEach(async () => {
+    await chrome.storage.local.clear();
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    governor = new RateLimitGovernor();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('check', () => {
+    it('レートリミットの記録がなければ許可する', async () => {
+      await expect(governor.check('low')).resolves.toEqual({ allowed: true });
+    });
+
+    it('low は残量が20%以下になると延期する', async () => {
+      await governor.record(createRateLimit({ remaining: 1001 }));
+      await expect(governor.check('low')).resolves.toEqual({ allowed: true });
+
+      await governor.record(createRateLimit({ remaining: 1000 }));
+      await expect(governor.check('low')).resolves.toEqual({
+        allowed: false,
+        retryAt: createRateLimit().reset * 1000,
+        reason: 'reserved',
+      });
+      await expect(governor.check('normal')).resolves.toEqual({
+        allowed: true,
+      });
+    });
+
+    it('normal は残量が2%以下になると延期する', async () => {
+      await governor.record(createRateLimit({ remaining: 101 }));
+      await expect(governor.check('normal')).resolves.toEqual({
+        allowed: true,
+      });
+
+      await governor.record(createRateLimit({ remaining: 100 }));
+      await expect(governor.check('normal')).resolves.toMatchObject({
+        allowed: false,
+        reason: 'reserved',
+      });
+      await expect(governor.check('high')).resolves.toEqual({
+        allowed: true,
+      });
+    });
+
+    it('high は残量が尽きるまで許可する', async () => {
+      await governor.record(createRateLimit({ remaining: 1 }));
+      await expect(governor.check('high')).resolves.toEqual({
+        allowed: true,
+      });
+
+      await governor.record(createRateLimit({ remaining: 0 }));
+      await expect(governor.check('high')).resolves.toMatchObject({
+        allowed: false,
+        reason: 'exhausted',
+      });
+    });
+
+    it('リセット時刻を過ぎていれば残量に関係なく許可する', async () => {
+      await governor.record(
+        createRateLimit({ remaining: 0, reset: (NOW - 1000) / 1000 })
+      );
+      await expect(governor.check('low')).resolves.toEqual({ allowed: true });
+    });
+
+    it('リソースごとに判定する', async () => {
+      await governor.record(
+        createRateLimit({ remaining: 0, resource: 'graphql' })
+      );
+      await expect(governor.check('high')).resolves.toEqual({
+        allowed: true,
+      });
+      await expect(governor.check('high', 'graphql')).resolves.toMatchObject({
+        allowed: false,
+      });
+    });
+  });
+
+  describe('block', () => {
+    it('指定時刻まですべての優先度のリクエストを止める', async () => {
+      const until = NOW + 60 * 1000;
+      await governor.block(until);
+
+      await expect(governor.check('high')).resolves.toEqual({
+        allowed: false,
+        retryAt: until,
+        reason: 'secondary',
+      });
+
+      jest.spyOn(Date, 'now').mockReturnValue(until);
+      await expect(governor.check('high')).resolves.toEqual({
+        allowed: true,
+      });
+    });
+
+    it('停止期間を短くしない', async () => {
+      await governor.block(NOW + 60 * 1000);
+      await governor.block(NOW + 10 * 1000);
+
+      await expect(governor.check('high')).resolves.toMatchObject({
+        retryAt: NOW + 60 * 1000,
+      });
+    });
+
+    it('停止中は blockedUntil を返し、解除後は null を返す', async () => {
+      const until = NOW + 60 * 1000;
+      await governor.record(createRateLimit());
+      await governor.block(until);
+
+      await expect(governor.getStatus()).resolves.toMatchObject({
+        blockedUntil: until,
+      });
+
+      jest.spyOn(Date, 'now').mockReturnValue(until + 1);
+      await expect(governor.getStatus()).resolves.toMatchObject({
+        blockedUntil: null,
+      });
+    });
+
+    it('Service Workerの再起動後も停止状態を復元する', async () => {
+      const until = NOW + 60 * 1000;
+      await governor.block(until);
+
+      const restarted = new RateLimitGovernor();
+      await expect(restarted.check('high')).resolves.toMatchObject({
+        allowed: false,
+        retryAt: until,
+      });
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { GitHubApiClient } from '../../src/background/api-client';
+import {
+  CacheManager,
+  getNamespacedKey,
+} from '../../src/background/cache-manager';
+import { CACHE_KEYS, fetchRepositories } from '../../src/background/github-api';
+import { RateLimitGovernor } from '../../src/background/rate-limit-governor';
+import { RequestScheduler } from '../../src/background/request-scheduler';
+import { Repository } from '../../src/types/api';
+
+const BASE_URL = 'https://api.github.com';
+const NAMESPACE = 'api.github.com/1';
+const TTL = 60;
+const START = Date.parse('2026-10-10T00:00:00Z');
+
+/**
+ * リポジトリを作成
+ * @param id リポジトリID
+ * @param updatedAt 更新日時
+ * @param name リポジトリ名
+ */
+function createRepository(
+  id: number,
+  updatedAt: string,
+  name = `repo-${id}`
+): Repository {
+  return {
+    id,
+    name,
+    full_name: `octocat/${name}`,
+    owner: { login: 'octocat', type: 'User' },
+    html_url: `https://github.com/octocat/${name}`,
+    description: null,
+    private: false,
+    updated_at: updatedAt,
+    pushed_at: updatedAt,
+    stargazers_count: 0,
+    language: null,
+  };
+}
+
+/**
+ * ページのレスポンスを作成
+ * @param data レスポンスボディ
+ * @param etag ETag
+ * @param next 次ページのURL（最終ページの場合は省略）
+ */
+function createPage(data: unknown, etag: string, next?: string): Response {
+  const headers = new Headers({ ETag: etag });
+  if (next) {
+    headers.set('Link', `<${next}>; rel="next"`);
+  }
+  return new Response(JSON.stringify(data), { status: 200, headers });
+}
+
+describe('fetchRepositories（差分同期）', () => {
+  const repoA = createRepository(1, '2026-10-02T00:00:00Z');
+  const repoB = createRepository(2, '2026-10-01T00:00:00Z');
+  const cacheKey = getNamespacedKey(NAMESPACE, CACHE_KEYS.repositories);
+
+  let client: GitHubApiClient;
+  let cache: CacheManager;
+  let fetchMock: jest.Mock;
+  let now: number;
+
+  /**
+   * キャッシュの有効期限が切れるまで時間を進める
+   * @param seconds 進める秒数
+   */
+  function advance(seconds = TTL + 1) {
+    now += seconds * 1000;
+  }
+
+  /**
+   * リポジトリ一覧を取得
+   */
+  function sync(): Promise<Repository[]> {
+    return fetchRepositories(client, cache, {
+      ttl: TTL,
+      namespace: NAMESPACE,
+    });
+  }
+
+  beforeEach(async () => {
+    await chrome.storage.local.clear();
+    await chrome.storage.session.clear();
+    now = START;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    fetchMock = jest.fn();
+    globalThis.fetch = fetchMock;
+    client = new GitHubApiClient(
+      'token',
+      BASE_URL,
+      new RateLimitGovernor(),
+      new RequestScheduler()
+    );
+    cache = new CacheManager();
+
+    // 最初は全件取得する
+    fetchMock.mockResolvedValueOnce(createPage([repoA, repoB], '"full"'));
+    await sync();
+    fetchMock.mockClear();
+    advance();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('前回の同期より古いリポジトリが現れたら、次のページを取得しない', async () => {
+    const repoC = createRepository(3, '2026-10-05T00:00:00Z');
+    fetchMock.mockResolvedValueOnce(
+      createPage([repoC, repoB], '"page1"', `${BASE_URL}/user/repos?page=2`)
+    );
+
+    const repositories = await sync();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(repositories.map((repo) => repo.id)).toEqual([3, 1, 2]);
+  });
+
+  it('更新されたリポジトリは、同じIDのリポジトリを置き換える', async () => {
+    const renamed = createRepository(1, '2026-10-06T00:00:00Z', 'renamed');
+    fetchMock.mockResolvedValueOnce(createPage([renamed, repoB], '"page1"'));
+
+    const repositories = await sync();
+
+    expect(repositories).toEqual([renamed, repoB]);
+  });
+
+  it('削除されたリポジトリは、1日後の全件取得で取り除く', async () => {
+    fetchMock.mockResolvedValueOnce(createPage([repoB], '"page1"'));
+    expect((await sync()).map((repo) => repo.id)).toEqual([1, 2]);
+
+    advance(24 * 60 * 60);
+    fetchMock.mockResolvedValueOnce(createPage([repoB], '"full"'));
+    expect((await sync()).map((repo) => repo.id)).toEqual([2]);
+
+    // 全件取得は条件付きリクエストにしない
+    const headers = fetchMock.mock.calls[1][1].headers;
+    expect(headers['If-None-Match']).toBeUndefined();
+  });
+
+  it('1ページ目の検証子を保存し、次の差分同期で送る', async () => {
+    const repoC = createRepository(3, '2026-10-05T00:00:00Z');
+    const repoD = createRepository(4, '2026-10-04T00:00:00Z');
+    fetchMock
+      .mockResolvedValueOnce(
+        createPage([repoC], '"page1"', `${BASE_URL}/user/repos?page=2`)
+      )
+      .mockResolvedValueOnce(createPage([repoD, repoA], '"page2"'));
+
+    await sync();
+
+    const entry = await cache.getEntry<Repository[]>(cacheKey);
+    expect(entry?.validators?.etag).toBe('"page1"');
+    expect(entry?.data.map((repo) => repo.id)).toEqual([3, 4, 1, 2]);
+
+    advance();
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 304 }));
+    expect((await sync()).map((repo) => repo.id)).toEqual([3, 4, 1, 2]);
+    expect(fetchMock.mock.calls[2][1].headers['If-None-Match']).toBe('"page1"');
+  });
+});
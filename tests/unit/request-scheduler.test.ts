@@ -0,0 +1,220 @@
+import { RequestScheduler } from '../../src/background/request-scheduler';
+
+/**
+ * 外部から完了させられるPromiseを作成
+ */
+function createDeferred<T = void>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
+
+describe('RequestScheduler', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('coalesce', () => {
+    it('同じキーの処理は1回だけ実行し、結果を共有する', async () => {
+      const scheduler = new RequestScheduler();
+      const deferred = createDeferred<string>();
+      const task = jest.fn(() => deferred.promise);
+
+      const first = scheduler.coalesce('key', task);
+      const second = scheduler.coalesce('key', task);
+      deferred.resolve('result');
+
+      await expect(first).resolves.toBe('result');
+      await expect(second).resolves.toBe('result');
+      expect(task).toHaveBeenCalledTimes(1);
+    });
+
+    it('完了後は同じキーでも再度実行する', async () => {
+      const scheduler = new RequestScheduler();
+      const task = jest.fn(async () => 'result');
+
+      await scheduler.coalesce('key', task);
+      await scheduler.coalesce('key', task);
+
+      expect(task).toHaveBeenCalledTimes(2);
+    });
+
+    it('異なるキーの処理はまとめない', async () => {
+      const scheduler = new RequestScheduler();
+      const task = jest.fn(async () => 'result');
+
+      await Promise.all([
+        scheduler.coalesce('a', task),
+        scheduler.coalesce('b', task),
+      ]);
+
+      expect(task).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('キャンセル', () => {
+    it('一部の呼び出し元がキャンセルしても処理は続ける', async () => {
+      const scheduler = new RequestScheduler();
+      const deferred = createDeferred<string>();
+      let sharedSignal: AbortSignal | undefined;
+      const task = (signal: AbortSignal) => {
+        sharedSignal = signal;
+        return deferred.promise;
+      };
+
+      const controllerA = new AbortController();
+      const controllerB = new AbortController();
+      const first = scheduler.coalesce('key', task, controllerA.signal);
+      const second = scheduler.coalesce('key', task, controllerB.signal);
+
+      controllerA.abort(new Error('cancelled'));
+      await expect(first).rejects.toThrow('cancelled');
+      expect(sharedSignal?.aborted).toBe(false);
+
+      deferred.resolve('result');
+      await expect(second).resolves.toBe('result');
+    });
+
+    it('すべての呼び出し元がキャンセルすると処理を中断する', async () => {
+      const scheduler = new RequestScheduler();
+      let sharedSignal: AbortSignal | undefined;
+      const task = (signal: AbortSignal) => {
+        sharedSignal = signal;
+        return createDeferred<string>().promise;
+      };
+
+      const controllerA = new AbortController();
+      const controllerB = new AbortController();
+      const first = scheduler.coalesce('key', task, controllerA.signal);
+      const second = scheduler.coalesce('key', task, controllerB.signal);
+
+      controllerA.abort(new Error('cancelled'));
+      controllerB.abort(new Error('cancelled'));
+
+      await expect(first).rejects.toThrow('cancelled');
+      await expect(second).rejects.toThrow('cancelled');
+      expect(sharedSignal?.aborted).toBe(true);
+    });
+
+    it('シグナルのない呼び出し元がいれば処理を中断しない', async () => {
+      const scheduler = new RequestScheduler();
+      const deferred = createDeferred<string>();
+      let sharedSignal: AbortSignal | undefined;
+      const task = (signal: AbortSignal) => {
+        sharedSignal = signal;
+        return deferred.promise;
+      };
+
+      const controller = new AbortController();
+      const cancellable = scheduler.coalesce('key', task, controller.signal);
+      const background = scheduler.coalesce('key', task);
+
+      controller.abort(new Error('cancelled'));
+      await expect(cancellable).rejects.toThrow('cancelled');
+      expect(sharedSignal?.aborted).toBe(false);
+
+      deferred.resolve('result');
+      await expect(background).resolves.toBe('result');
+    });
+
+    it('待機中にキャンセルされたタスクは実行しない', async () => {
+      const scheduler = new RequestScheduler(1);
+      const blocker = createDeferred();
+      const task = jest.fn(async () => 'result');
+
+      const running = scheduler.schedule(
+        'blocker',
+        'high',
+        () => blocker.promise
+      );
+      const controller = new AbortController();
+      const queued = scheduler.schedule(
+        'queued',
+        'normal',
+        task,
+        controller.signal
+      );
+
+      controller.abort(new Error('cancelled'));
+      await expect(queued).rejects.toThrow('cancelled');
+
+      blocker.resolve();
+      await running;
+      expect(task).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('schedule', () => {
+    it('同時実行数の上限を超えたタスクは優先度順に実行する', async () => {
+      const scheduler = new RequestScheduler(1);
+      const blocker = createDeferred();
+      const order: string[] = [];
+      const record = (name: string) => async () => {
+        order.push(name);
+      };
+
+      const requests = [
+        scheduler.schedule('blocker', 'low', () => blocker.promise),
+        scheduler.schedule('low', 'low', record('low')),
+        scheduler.schedule('normal', 'normal', record('normal')),
+        scheduler.schedule('high', 'high', record('high')),
+        scheduler.schedule('normal-2', 'normal', record('normal-2')),
+      ];
+
+      blocker.resolve();
+      await Promise.all(requests);
+
+      expect(order).toEqual(['high', 'normal', 'normal-2', 'low']);
+    });
+
+    it('待機中のタスクに高い優先度で合流した場合は繰り上げる', async () => {
+      const scheduler = new RequestScheduler(1);
+      const blocker = createDeferred();
+      const order: string[] = [];
+      const record = (name: string) => async () => {
+        order.push(name);
+      };
+
+      const requests = [
+        scheduler.schedule('blocker', 'high', () => blocker.promise),
+        scheduler.schedule('normal', 'normal', record('normal')),
+        scheduler.schedule('prefetch', 'low', record('prefetch')),
+        scheduler.schedule('prefetch', 'high', record('prefetch')),
+      ];
+
+      blocker.resolve();
+      await Promise.all(requests);
+
+      expect(order).toEqual(['prefetch', 'normal']);
+    });
+
+    it('同時実行数の上限まで並列に実行する', async () => {
+      const scheduler = new RequestScheduler(2);
+      const blockers = [createDeferred(), createDeferred(), createDeferred()];
+      const started: number[] = [];
+
+      const requests = blockers.map((blocker, index) =>
+        scheduler.schedule(`task-${index}`, 'normal', () => {
+          started.push(index);
+          return blocker.promise;
+        })
+      );
+
+      expect(started).toEqual([0, 1]);
+
+      blockers[0].resolve();
+      await requests[0];
+      expect(started).toEqual([0, 1, 2]);
+
+      blockers[1].resolve();
+      blockers[2].resolve();
+      await Promise.all(requests);
+    });
+  });
+});